@@ -1,7 +1,7 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react-native';
+import { fireEvent, render, screen } from '@testing-library/react-native';
 import DateTimePicker from '../datetime-picker';
-//import dayjs from 'dayjs';
+import dayjs from 'dayjs';
 import 'dayjs/locale/en';
 import 'dayjs/locale/de';
 import 'dayjs/locale/es';
@@ -19,6 +19,30 @@ describe('API TESTS', () => {
     expect(screen.getByText('2020')).toBeVisible();
   });
 
+  test('buddhist calendar displays and selects Buddhist era years', () => {
+    const onChange = jest.fn();
+    const onYearChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        calendar="buddhist"
+        date={new Date(2025, 0, 15)}
+        onChange={onChange}
+        onYearChange={onYearChange}
+      />
+    );
+    expect(screen.getByText('2568')).toBeVisible();
+
+    fireEvent.press(screen.getByTestId('btn-year'));
+    fireEvent.press(screen.getByText('2570'));
+    expect(onYearChange).toHaveBeenCalledWith(2570);
+    expect(screen.getByText('2570')).toBeVisible();
+
+    fireEvent.press(screen.getByText('19'));
+    const { date } = onChange.mock.calls.at(-1)![0];
+    expect(dayjs(date).year()).toBe(2027);
+  });
+
   // test('minDate should be applied after init', () => {
   //   const minDate = new Date();
 
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Text } from 'react-native';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import type { CalendarDay } from '../types';
+
+const components = {
+  Day: (day: CalendarDay) => (
+    <Text>{day.isSelected ? `[${day.text}]` : day.text}</Text>
+  ),
+};
+
+describe('calendar switcher', () => {
+  test('is hidden unless several calendars are configured', () => {
+    render(<DateTimePicker mode="single" calendars={['islamic']} />);
+    expect(screen.queryByTestId('btn-calendar')).toBeNull();
+  });
+
+  test('cycles the calendars on the same absolute day', () => {
+    const onCalendarChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        calendars={['gregory', 'islamic', 'hebrew']}
+        date={new Date(2025, 2, 10)}
+        onCalendarChange={onCalendarChange}
+        components={components}
+      />
+    );
+    expect(screen.getByText('Gregorian Calendar')).toBeVisible();
+    expect(screen.getByText('[10]')).toBeVisible();
+
+    // 10 March 2025 is 10 Ramadan 1446
+    fireEvent.press(screen.getByTestId('btn-calendar'));
+    expect(onCalendarChange).toHaveBeenLastCalledWith('islamic');
+    expect(screen.getByText('Hijri Calendar')).toBeVisible();
+    expect(screen.getByText('Ramadan')).toBeVisible();
+    expect(screen.getByText('1446')).toBeVisible();
+    expect(screen.getByText('[10]')).toBeVisible();
+
+    // ...and 10 Adar 5785
+    fireEvent.press(screen.getByTestId('btn-calendar'));
+    expect(onCalendarChange).toHaveBeenLastCalledWith('hebrew');
+    expect(screen.getByText('Adar')).toBeVisible();
+    expect(screen.getByText('5785')).toBeVisible();
+    expect(screen.getByText('[10]')).toBeVisible();
+
+    fireEvent.press(screen.getByTestId('btn-calendar'));
+    expect(onCalendarChange).toHaveBeenLastCalledWith('gregory');
+    expect(screen.getByText('March')).toBeVisible();
+    expect(screen.getByText('[10]')).toBeVisible();
+  });
+
+  test('names the calendars in the locale', () => {
+    render(
+      <DateTimePicker
+        mode="single"
+        locale="ar"
+        calendars={['islamic', 'gregory']}
+        calendar="islamic"
+      />
+    );
+    expect(screen.getByText('التقويم الهجري')).toBeVisible();
+  });
+
+  test('keeps the visible month and selects in the new calendar', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        calendars={['gregory', 'islamic']}
+        date={new Date(2025, 2, 10)}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(screen.getByTestId('btn-next'));
+    expect(screen.getByText('April')).toBeVisible();
+
+    // 10 April 2025 is 12 Shawwal 1446
+    fireEvent.press(screen.getByTestId('btn-calendar'));
+    expect(screen.getByText('Shawwal')).toBeVisible();
+
+    fireEvent.press(screen.getByText('15'));
+    const { date } = onChange.mock.calls[0][0];
+    expect(dayjs(date).toDate()).toEqual(new Date(2025, 3, 13));
+  });
+});
@@ -0,0 +1,93 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import {
+  getDayjs,
+  getDaysInMonth,
+  getMonthsArray,
+  getMonthsInYear,
+  getSexagenaryYear,
+} from '../utils';
+
+describe('chinese calendar', () => {
+  test('converts Gregorian dates around the leap month', () => {
+    // Chinese New Year 2025
+    const newYear = getDayjs(new Date(2025, 0, 29), 'chinese');
+    expect(newYear.year()).toBe(2025);
+    expect(newYear.month()).toBe(0);
+    expect(newYear.date()).toBe(1);
+
+    // 1st day of the leap 6th month of 2025 sits at index 6
+    const leapMonth = getDayjs(new Date(2025, 6, 25), 'chinese');
+    expect(leapMonth.month()).toBe(6);
+    expect(leapMonth.date()).toBe(1);
+
+    // 1st day of the 7th month follows at index 7
+    const seventhMonth = getDayjs(new Date(2025, 7, 23), 'chinese');
+    expect(seventhMonth.month()).toBe(7);
+    expect(seventhMonth.date()).toBe(1);
+  });
+
+  test('leap years have 13 months', () => {
+    expect(getMonthsInYear(2025, 'chinese')).toBe(13);
+    expect(getMonthsInYear(2024, 'chinese')).toBe(12);
+
+    const leapMonths = getMonthsArray({
+      calendar: 'chinese',
+      locale: 'en',
+      year: 2025,
+    }).map((month) => month.name.full);
+    expect(leapMonths).toHaveLength(13);
+    expect(leapMonths.slice(5, 8)).toEqual([
+      'Month 6',
+      'Leap Month 6',
+      'Month 7',
+    ]);
+
+    const zhMonths = getMonthsArray({
+      calendar: 'chinese',
+      locale: 'zh-cn',
+      year: 2023,
+    }).map((month) => month.name.full);
+    expect(zhMonths).toHaveLength(13);
+    expect(zhMonths[2]).toBe('闰二月');
+    expect(zhMonths[12]).toBe('腊月');
+  });
+
+  test('builds the days grid of a leap month', () => {
+    // Leap 6th month of 2025 has 29 days and starts on Friday 25 Jul 2025
+    const leapMonth = getDayjs(new Date(2025, 7, 1), 'chinese');
+    const { prevMonthOffset, daysInCurrentMonth } = getDaysInMonth(
+      leapMonth,
+      false,
+      0,
+      'chinese'
+    );
+    expect(daysInCurrentMonth).toBe(29);
+    expect(prevMonthOffset).toBe(5);
+    // 8th day of the leap month → 8th day of the 7th month
+    expect(dayjs(leapMonth.add(1, 'month')).toDate()).toEqual(
+      new Date(2025, 7, 30)
+    );
+  });
+
+  test('names years in the sexagenary cycle', () => {
+    expect(getSexagenaryYear(2025, 'zh')).toBe('乙巳');
+    expect(getSexagenaryYear(1984, 'zh-tw')).toBe('甲子');
+    expect(getSexagenaryYear(2024, 'en')).toBe('jia-chen');
+  });
+
+  test('renders the leap month and sexagenary year in the header', () => {
+    render(
+      <DateTimePicker
+        mode="single"
+        calendar="chinese"
+        locale="en"
+        date={new Date(2025, 7, 1)}
+      />
+    );
+    expect(screen.getByText('Leap Month 6')).toBeVisible();
+    expect(screen.getByText('2025 (yi-si)')).toBeVisible();
+  });
+});
@@ -0,0 +1,123 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import { rangePresets } from '../presets';
+import { getDisabledDateInRange } from '../utils';
+
+const blockedStyles = { range_blocked_label: { opacity: 0.25 } };
+
+const isDisabled = (text: string) =>
+  !!screen.getByLabelText(text).props.accessibilityState?.disabled;
+
+const isBlocked = (text: string) =>
+  isDisabled(text) && screen.getByText(text).props.style?.opacity === 0.25;
+
+describe('disallowDisabledInRange', () => {
+  const disabledDates = [new Date(2025, 11, 5), new Date(2025, 11, 15)];
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 11, 17, 12) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('finds the disabled day within a range', () => {
+    const start = new Date(2025, 11, 12);
+    const end = new Date(2025, 11, 15);
+
+    expect(
+      dayjs(
+        getDisabledDateInRange(start, end, { disabledDates }, 'days')
+      ).toDate()
+    ).toEqual(new Date(2025, 11, 15));
+    // Counting nights by default, the range may end on the disabled day
+    expect(
+      getDisabledDateInRange(start, end, { disabledDates })
+    ).toBeUndefined();
+    expect(
+      getDisabledDateInRange(
+        start,
+        new Date(2025, 11, 14),
+        { disabledDates },
+        'days'
+      )
+    ).toBeUndefined();
+  });
+
+  test('blocks the days past a disabled day from the pending start', () => {
+    render(
+      <DateTimePicker
+        mode="range"
+        disallowDisabledInRange
+        disabledDates={disabledDates}
+        startDate={new Date(2025, 11, 12)}
+        styles={blockedStyles}
+      />
+    );
+
+    expect(isDisabled('6')).toBe(false);
+    expect(isDisabled('14')).toBe(false);
+    expect(isBlocked('4')).toBe(true);
+    expect(isBlocked('16')).toBe(true);
+    // The disabled days themselves keep their own state
+    expect(isBlocked('15')).toBe(false);
+  });
+
+  test('lets the range end on a disabled day when counting nights', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        rangeSemantics="nights"
+        disallowDisabledInRange
+        disabledDates={disabledDates}
+        startDate={new Date(2025, 11, 12)}
+        styles={blockedStyles}
+        onChange={onChange}
+      />
+    );
+
+    expect(isBlocked('16')).toBe(true);
+    fireEvent.press(screen.getByText('15'));
+    expect(dayjs(onChange.mock.lastCall[0].endDate).toDate()).toEqual(
+      new Date(2025, 11, 15, 23, 59, 59, 999)
+    );
+  });
+
+  test('reports a range spanning a disabled day instead of selecting it', () => {
+    const onChange = jest.fn();
+    const onInvalidRange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        disallowDisabledInRange
+        disabledDates={disabledDates}
+        presets={[rangePresets.last7Days]}
+        onChange={onChange}
+        onInvalidRange={onInvalidRange}
+      />
+    );
+
+    fireEvent.press(screen.getByTestId('preset-0'));
+    expect(onChange).not.toHaveBeenCalled();
+    expect(
+      dayjs(onInvalidRange.mock.lastCall[0].disabledDate).toDate()
+    ).toEqual(new Date(2025, 11, 15));
+  });
+
+  test('leaves ranges alone by default', () => {
+    render(
+      <DateTimePicker
+        mode="range"
+        disabledDates={disabledDates}
+        startDate={new Date(2025, 11, 12)}
+        styles={blockedStyles}
+      />
+    );
+
+    expect(isDisabled('16')).toBe(false);
+  });
+});
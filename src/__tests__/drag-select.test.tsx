@@ -0,0 +1,240 @@
+import React from 'react';
+import { Platform } from 'react-native';
+import { act, fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import { DRAG_EDGE_DELAY } from '../enums';
+
+// Default grid: 7 columns of 50 over 350, 6 rows of (300 - 25) / 6
+const pointer = (x: number, y: number) => ({
+  nativeEvent: { clientX: x, clientY: y, pointerId: 1 },
+  currentTarget: {
+    getBoundingClientRect: () => ({ left: 0, top: 0, width: 350 }),
+  },
+});
+
+const drag = (points: [number, number][]) => {
+  const days = screen.getByTestId('days');
+  const [first, ...rest] = points;
+  fireEvent(days, 'pointerDown', pointer(...first!));
+  rest.forEach((point) => fireEvent(days, 'pointerMove', pointer(...point)));
+};
+
+const release = () => fireEvent(screen.getByTestId('days'), 'pointerUp');
+
+const lastRange = (onChange: jest.Mock) => {
+  const { startDate, endDate } = onChange.mock.lastCall[0];
+  return [dayjs(startDate).toDate(), dayjs(endDate).toDate()];
+};
+
+describe('dragToSelect', () => {
+  const os = Platform.OS;
+
+  beforeEach(() => {
+    Platform.OS = 'web';
+    jest.useFakeTimers({ now: new Date(2025, 11, 17, 12) });
+  });
+
+  afterEach(() => {
+    Platform.OS = os;
+    jest.useRealTimers();
+  });
+
+  test('selects the days dragged across, past the end of a row', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        dragToSelect
+        date={new Date(2025, 11, 1)}
+        onChange={onChange}
+      />
+    );
+
+    // From Wednesday 10 December back up to Wednesday 3 December
+    drag([
+      [175, 65],
+      [175, 60],
+      [175, 20],
+    ]);
+    release();
+
+    expect(lastRange(onChange)).toEqual([
+      new Date(2025, 11, 3),
+      new Date(2025, 11, 10, 23, 59, 59, 999),
+    ]);
+  });
+
+  test('turns the month while held at the edge of the grid', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        dragToSelect
+        date={new Date(2025, 11, 1)}
+        onChange={onChange}
+      />
+    );
+
+    drag([
+      [175, 65],
+      [345, 65],
+    ]);
+    act(() => {
+      jest.advanceTimersByTime(DRAG_EDGE_DELAY);
+    });
+    expect(screen.getByText('January')).toBeVisible();
+
+    // Saturday 10 January
+    fireEvent(screen.getByTestId('days'), 'pointerMove', pointer(344, 65));
+    release();
+
+    expect(lastRange(onChange)).toEqual([
+      new Date(2025, 11, 10),
+      new Date(2026, 0, 10, 23, 59, 59, 999),
+    ]);
+  });
+
+  test('ignores the press that ends a drag but not later taps', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        dragToSelect
+        date={new Date(2025, 11, 1)}
+        onChange={onChange}
+      />
+    );
+
+    drag([
+      [175, 20],
+      [225, 20],
+    ]);
+    release();
+    fireEvent.press(screen.getByText('4'));
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      jest.runOnlyPendingTimers();
+    });
+    fireEvent.press(screen.getByText('4'));
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  test('captures the pointer only once the press is dragged', () => {
+    render(<DateTimePicker mode="range" dragToSelect />);
+    const days = screen.getByTestId('days');
+    const setPointerCapture = jest.fn();
+    const target = (x: number, y: number) => {
+      const event = pointer(x, y);
+      return {
+        ...event,
+        currentTarget: { ...event.currentTarget, setPointerCapture },
+      };
+    };
+
+    fireEvent(days, 'pointerDown', target(175, 65));
+    fireEvent(days, 'pointerMove', target(176, 65));
+    release();
+    expect(setPointerCapture).not.toHaveBeenCalled();
+
+    fireEvent(days, 'pointerDown', target(175, 65));
+    fireEvent(days, 'pointerMove', target(175, 20));
+    release();
+    expect(setPointerCapture).toHaveBeenCalledTimes(1);
+    expect(setPointerCapture).toHaveBeenCalledWith(1);
+  });
+
+  test('leaves the grid alone without dragToSelect', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        date={new Date(2025, 11, 1)}
+        onChange={onChange}
+      />
+    );
+
+    expect(screen.getByTestId('days').props.onLayout).toBeUndefined();
+
+    drag([
+      [175, 65],
+      [175, 20],
+    ]);
+    release();
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
+
+describe('dragToSelect on native', () => {
+  // A single touch at a window position, as the responder system tracks it
+  const touch = (x: number, y: number, timestamp: number) => {
+    const track = {
+      touchActive: true,
+      startPageX: x,
+      startPageY: y,
+      startTimeStamp: timestamp,
+      currentPageX: x,
+      currentPageY: y,
+      currentTimeStamp: timestamp,
+      previousPageX: x,
+      previousPageY: y,
+      previousTimeStamp: timestamp,
+    };
+    return {
+      nativeEvent: { touches: [{ pageX: x, pageY: y }] },
+      touchHistory: {
+        numberActiveTouches: 1,
+        indexOfSingleActiveTouch: 0,
+        mostRecentTimeStamp: timestamp,
+        touchBank: [track],
+      },
+    };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 11, 17, 12) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('measures the grid again when the drag starts', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        dragToSelect
+        date={new Date(2025, 11, 1)}
+        onChange={onChange}
+      />
+    );
+
+    const days = screen.getByTestId('days');
+    let top = 0;
+    days.parent!.instance.measureInWindow = (
+      callback: (x: number, y: number, width: number) => void
+    ) => callback(0, top, 350);
+    fireEvent(days, 'layout', { nativeEvent: { layout: { width: 350 } } });
+
+    // The grid scrolled down 200 since its layout
+    top = 200;
+    // The responder system calls the PanResponder handlers in this order,
+    // which fireEvent skips as the grid doesn't claim the first touch
+    const moved = touch(175, 260, 2);
+    act(() => {
+      days.props.onStartShouldSetResponderCapture(touch(175, 265, 1));
+      days.props.onMoveShouldSetResponderCapture(moved);
+      days.props.onResponderGrant(moved);
+      days.props.onResponderMove(touch(175, 220, 3));
+      days.props.onResponderRelease(touch(175, 220, 4));
+    });
+
+    expect(lastRange(onChange)).toEqual([
+      new Date(2025, 11, 3),
+      new Date(2025, 11, 10, 23, 59, 59, 999),
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import DateTimePicker from '../datetime-picker';
+import {
+  getDayjs,
+  getDaysInMonth,
+  getMonthsArray,
+  getMonthsInYear,
+  isMonthDisabled,
+} from '../utils';
+
+describe('ethiopic and coptic calendars', () => {
+  test('converts Gregorian dates to Ethiopic and Coptic', () => {
+    // Enkutatash, 1 Meskerem 2018
+    const meskerem = getDayjs(new Date(2025, 8, 11), 'ethiopic');
+    expect(meskerem.year()).toBe(2018);
+    expect(meskerem.month()).toBe(0);
+    expect(meskerem.date()).toBe(1);
+
+    // Nayrouz, 1 Tout 1742
+    const tout = getDayjs(new Date(2025, 8, 11), 'coptic');
+    expect(tout.year()).toBe(1742);
+    expect(tout.month()).toBe(0);
+    expect(tout.date()).toBe(1);
+
+    // 6 Pagumen 2015 only exists in leap years
+    const pagumen = getDayjs(new Date(2023, 8, 11), 'ethiopic');
+    expect(pagumen.year()).toBe(2015);
+    expect(pagumen.month()).toBe(12);
+    expect(pagumen.date()).toBe(6);
+  });
+
+  test('every year has 13 months', () => {
+    expect(getMonthsInYear(2018, 'ethiopic')).toBe(13);
+    expect(getMonthsInYear(1742, 'coptic')).toBe(13);
+    expect(getMonthsInYear(2025, 'gregory')).toBe(12);
+
+    const ethiopicMonths = getMonthsArray({
+      calendar: 'ethiopic',
+      locale: 'am',
+      year: 2018,
+    });
+    expect(ethiopicMonths).toHaveLength(13);
+    expect(ethiopicMonths[12]!.name.full).toBe('ጳጉሜን');
+
+    const copticMonths = getMonthsArray({
+      calendar: 'coptic',
+      locale: 'en',
+      year: 1742,
+    });
+    expect(copticMonths).toHaveLength(13);
+    expect(copticMonths[12]!.name.full).toBe('Nasie');
+  });
+
+  test('builds the days grid of the epagomenal month', () => {
+    // Pagumen 2017 has 5 days and starts on Saturday 6 Sep 2025
+    const pagumen = getDayjs(new Date(2025, 8, 8), 'ethiopic');
+    const { daysInCurrentMonth, prevMonthDays, prevMonthOffset } =
+      getDaysInMonth(pagumen, false, 0, 'ethiopic');
+    expect(daysInCurrentMonth).toBe(5);
+    expect(prevMonthDays).toBe(30);
+    expect(prevMonthOffset).toBe(6);
+  });
+
+  test('disables month indexes the year does not have', () => {
+    const hebrewCommonYear = getDayjs(new Date(2024, 11, 1), 'hebrew');
+    expect(isMonthDisabled(12, hebrewCommonYear, {}, 'hebrew')).toBe(true);
+    const ethiopicYear = getDayjs(new Date(2025, 11, 1), 'ethiopic');
+    expect(isMonthDisabled(12, ethiopicYear, {}, 'ethiopic')).toBe(false);
+  });
+
+  test('selects the 13th month from the months grid', () => {
+    const onMonthChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        calendar="ethiopic"
+        date={new Date(2025, 9, 10)}
+        onMonthChange={onMonthChange}
+      />
+    );
+    // 30 Meskerem 2018
+    expect(screen.getByText('Meskerem')).toBeVisible();
+
+    fireEvent.press(screen.getByTestId('btn-month'));
+    fireEvent.press(screen.getByText('Pagumen'));
+
+    expect(onMonthChange).toHaveBeenCalledWith(12);
+    // Pagumen 2018 has 5 days, so the 30th is clamped to the 5th rather
+    // than rolling over into the next year
+    expect(screen.getByText('Pagumen')).toBeVisible();
+    expect(screen.getByText('5')).toBeVisible();
+    expect(screen.queryByText('6')).toBeNull();
+  });
+});
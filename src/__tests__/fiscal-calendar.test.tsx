@@ -0,0 +1,128 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import {
+  getFiscalPeriod,
+  getFiscalPeriods,
+  getFiscalYear,
+} from '../fiscal-calendar';
+
+const toDates = ({
+  startDate,
+  endDate,
+}: {
+  startDate: dayjs.Dayjs;
+  endDate: dayjs.Dayjs;
+}) => [startDate.toDate(), endDate.toDate()];
+
+describe('fiscal calendar', () => {
+  test('splits a fiscal year starting in April into months', () => {
+    const fiscalYear = getFiscalYear(new Date(2025, 4, 10), {});
+    expect(fiscalYear.year).toBe(2026);
+    expect(toDates(fiscalYear)).toEqual([
+      new Date(2025, 3, 1),
+      new Date(2026, 2, 31),
+    ]);
+    expect(
+      getFiscalYear(new Date(2025, 4, 10), { yearNaming: 'start' }).year
+    ).toBe(2025);
+    expect(getFiscalYear(new Date(2025, 4, 10), { startMonth: 0 }).year).toBe(
+      2025
+    );
+
+    const period = getFiscalPeriod(new Date(2026, 1, 10), {});
+    expect(period.period).toBe(11);
+    expect(toDates(period)).toEqual([
+      new Date(2026, 1, 1),
+      new Date(2026, 1, 28),
+    ]);
+  });
+
+  test('builds 4-4-5 retail years from whole weeks', () => {
+    const retail = {
+      startMonth: 1,
+      weekPattern: '4-4-5',
+      yearNaming: 'start',
+    } as const;
+
+    // Starts on the Sunday nearest to 1 Feb
+    expect(toDates(getFiscalYear(new Date(2024, 5, 1), retail))).toEqual([
+      new Date(2024, 1, 4),
+      new Date(2025, 1, 1),
+    ]);
+
+    // 2023 has 53 weeks, the last one joining the 12th period
+    const periods = getFiscalPeriods(2023, retail);
+    expect(periods.map(toDates).slice(0, 3)).toEqual([
+      [new Date(2023, 0, 29), new Date(2023, 1, 25)],
+      [new Date(2023, 1, 26), new Date(2023, 2, 25)],
+      [new Date(2023, 2, 26), new Date(2023, 3, 29)],
+    ]);
+    expect(toDates(periods[11]!)).toEqual([
+      new Date(2023, 11, 24),
+      new Date(2024, 1, 3),
+    ]);
+    expect(getFiscalPeriod(new Date(2024, 1, 3), retail)).toMatchObject({
+      year: 2023,
+      period: 12,
+    });
+  });
+
+  test('shows fiscal periods and years and returns real dates', () => {
+    const onChange = jest.fn();
+    const onYearChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        fiscalCalendar={{ startMonth: 3 }}
+        date={new Date(2025, 4, 10)}
+        onChange={onChange}
+        onYearChange={onYearChange}
+      />
+    );
+    expect(screen.getByText('May (P2)')).toBeVisible();
+    expect(screen.getByText('FY2026')).toBeVisible();
+
+    fireEvent.press(screen.getByTestId('btn-month'));
+    expect(screen.getByText('April (P1)')).toBeVisible();
+    fireEvent.press(screen.getByText('February (P11)'));
+    expect(onYearChange).toHaveBeenCalledWith(2026);
+    expect(screen.getByText('February (P11)')).toBeVisible();
+    expect(screen.getByText('FY2026')).toBeVisible();
+
+    fireEvent.press(screen.getByText('10'));
+    const { date } = onChange.mock.calls[0][0];
+    expect(dayjs(date).toDate()).toEqual(new Date(2026, 1, 10));
+
+    fireEvent.press(screen.getByTestId('btn-year'));
+    fireEvent.press(screen.getByText('FY2025'));
+    expect(screen.getByText('February (P11)')).toBeVisible();
+    expect(screen.getByText('FY2025')).toBeVisible();
+  });
+
+  test('disables periods by their own days', () => {
+    const isDisabled = (label: string) =>
+      !!screen.getByLabelText(label).props.accessibilityState?.disabled;
+    render(
+      <DateTimePicker
+        mode="single"
+        fiscalCalendar={{
+          startMonth: 3,
+          weekPattern: '4-4-5',
+          weekStartsOn: 4,
+        }}
+        date={new Date(2025, 6, 10)}
+        minDate={new Date(2025, 6, 1)}
+        maxDate={new Date(2025, 7, 1)}
+      />
+    );
+    fireEvent.press(screen.getByTestId('btn-month'));
+
+    // P3 runs from 29 May to 2 July and P5 from 31 July to 27 August
+    expect(isDisabled('May (P2)')).toBe(true);
+    expect(isDisabled('June (P3)')).toBe(false);
+    expect(isDisabled('August (P5)')).toBe(false);
+    expect(isDisabled('September (P6)')).toBe(true);
+  });
+});
@@ -0,0 +1,164 @@
+import React from 'react';
+import {
+  fireEvent,
+  render,
+  screen,
+  within,
+} from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import { getFixedRangeEnd, getNextDisabledOffsets } from '../utils';
+
+const blockedStyles = {
+  range_preview: { borderWidth: 3 },
+  range_blocked_label: { opacity: 0.25 },
+};
+
+const isDisabled = (text: string) =>
+  !!screen.getByLabelText(text).props.accessibilityState?.disabled;
+
+const isBlocked = (text: string) =>
+  isDisabled(text) && screen.getByText(text).props.style?.opacity === 0.25;
+
+const isPreviewed = (text: string) =>
+  screen.getByLabelText(text).props.style?.borderWidth === 3;
+
+const lastRange = (onChange: jest.Mock) => {
+  const { startDate, endDate } = onChange.mock.lastCall[0];
+  return [dayjs(startDate).toDate(), dayjs(endDate).toDate()];
+};
+
+describe('fixedRangeLength', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 11, 1, 12) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('ends the span the day before the same day of the next period', () => {
+    const start = new Date(2025, 0, 31);
+    expect(
+      getFixedRangeEnd(start, { amount: 1, unit: 'month' }, 'days').toDate()
+    ).toEqual(new Date(2025, 1, 27));
+    expect(
+      getFixedRangeEnd(start, { amount: 2, unit: 'week' }).toDate()
+    ).toEqual(new Date(2025, 1, 14));
+  });
+
+  test('finds the next disabled day after each day', () => {
+    expect(
+      getNextDisabledOffsets(new Date(2025, 11, 1), new Date(2025, 11, 6), {
+        disabledDates: [new Date(2025, 11, 1), new Date(2025, 11, 3)],
+        maxDate: new Date(2025, 11, 5),
+      })
+    ).toEqual([2, 2, 5, 5, 5, Infinity]);
+  });
+
+  test('selects the whole span with a single press', () => {
+    const onChange = jest.fn();
+    const { rerender } = render(
+      <DateTimePicker
+        mode="range"
+        rangeSemantics="days"
+        fixedRangeLength={{ amount: 7, unit: 'day' }}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(screen.getByText('10'));
+    expect(lastRange(onChange)).toEqual([
+      new Date(2025, 11, 10),
+      new Date(2025, 11, 16, 23, 59, 59, 999),
+    ]);
+
+    // Counting nights by default, the span ends on the check-out day
+    rerender(
+      <DateTimePicker
+        mode="range"
+        fixedRangeLength={{ amount: 1, unit: 'month' }}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(screen.getByText('10'));
+    expect(lastRange(onChange)).toEqual([
+      new Date(2025, 11, 10),
+      new Date(2026, 0, 10, 23, 59, 59, 999),
+    ]);
+  });
+
+  test('previews the span while a day is hovered or pressed in', () => {
+    render(
+      <DateTimePicker
+        mode="range"
+        rangeSemantics="days"
+        fixedRangeLength={{ amount: 3, unit: 'day' }}
+        displayRangePreviewTooltip
+        styles={blockedStyles}
+      />
+    );
+
+    fireEvent(screen.getByText('10'), 'hoverIn');
+    expect(['10', '11', '12'].every(isPreviewed)).toBe(true);
+    expect(isPreviewed('13')).toBe(false);
+    expect(
+      within(screen.getByTestId('range-preview-tooltip')).getByText('3')
+    ).toBeVisible();
+    fireEvent(screen.getByText('10'), 'hoverOut');
+
+    fireEvent(screen.getByText('20'), 'pressIn');
+    expect(['20', '21', '22'].every(isPreviewed)).toBe(true);
+    fireEvent(screen.getByText('20'), 'pressOut');
+    expect(isPreviewed('20')).toBe(false);
+  });
+
+  test('blocks the days whose span hits a disabled day or maxDate', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        fixedRangeLength={{ amount: 3, unit: 'day' }}
+        disabledDates={[new Date(2025, 11, 10)]}
+        maxDate={new Date(2025, 11, 20)}
+        styles={blockedStyles}
+        onChange={onChange}
+      />
+    );
+
+    expect(isDisabled('7')).toBe(false);
+    expect(isBlocked('8')).toBe(true);
+    expect(isBlocked('9')).toBe(true);
+    expect(isBlocked('10')).toBe(false);
+    expect(isDisabled('18')).toBe(false);
+    expect(isBlocked('19')).toBe(true);
+
+    fireEvent.press(screen.getByText('9'));
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  test('reports the day a span would hit', () => {
+    const onChange = jest.fn();
+    const onInvalidRange = jest.fn();
+    const onSelectionRejected = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        fixedRangeLength={{ amount: 3, unit: 'day' }}
+        maxDate={new Date(2025, 11, 20)}
+        onChange={onChange}
+        onInvalidRange={onInvalidRange}
+        onSelectionRejected={onSelectionRejected}
+      />
+    );
+
+    expect(isDisabled('19')).toBe(true);
+    fireEvent.press(screen.getByText('19'));
+    expect(onChange).not.toHaveBeenCalled();
+    expect(
+      dayjs(onInvalidRange.mock.lastCall[0].disabledDate).format('YYYY-MM-DD')
+    ).toBe('2025-12-21');
+    expect(onSelectionRejected.mock.lastCall[0].reason).toBe('out-of-bounds');
+  });
+});
@@ -0,0 +1,98 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import {
+  formatNumber,
+  getDayjs,
+  getDaysInMonth,
+  getMonthDays,
+  getMonthsArray,
+  getMonthsInYear,
+} from '../utils';
+
+describe('hebrew calendar', () => {
+  test('converts Gregorian dates to the civil Hebrew month order', () => {
+    // 1 Tishrei 5786 (Rosh Hashanah)
+    const roshHashanah = getDayjs(new Date(2025, 8, 23), 'hebrew');
+    expect(roshHashanah.year()).toBe(5786);
+    expect(roshHashanah.month()).toBe(0);
+    expect(roshHashanah.date()).toBe(1);
+
+    // 1 Adar II 5784 is the 7th month of a leap year
+    const adarII = getDayjs(new Date(2024, 2, 11), 'hebrew');
+    expect(adarII.year()).toBe(5784);
+    expect(adarII.month()).toBe(6);
+    expect(adarII.date()).toBe(1);
+  });
+
+  test('leap years have 13 months including Adar I and Adar II', () => {
+    expect(getMonthsInYear(5784, 'hebrew')).toBe(13);
+    expect(getMonthsInYear(5785, 'hebrew')).toBe(12);
+
+    const leapMonths = getMonthsArray({
+      calendar: 'hebrew',
+      locale: 'en',
+      year: 5784,
+    }).map((month) => month.name.full);
+    expect(leapMonths).toHaveLength(13);
+    expect(leapMonths.slice(5, 8)).toEqual(['Adar I', 'Adar II', 'Nisan']);
+
+    const commonMonths = getMonthsArray({
+      calendar: 'hebrew',
+      locale: 'he',
+      year: 5785,
+    }).map((month) => month.name.full);
+    expect(commonMonths).toHaveLength(12);
+    expect(commonMonths[5]).toBe('אדר');
+  });
+
+  test('builds the days grid of a Hebrew month', () => {
+    // Adar I 5784 has 30 days and starts on Saturday 10 Feb 2024
+    const adarI = getDayjs(new Date(2024, 1, 15), 'hebrew');
+    const { prevMonthOffset, daysInCurrentMonth, prevMonthDays } =
+      getDaysInMonth(adarI, false, 0, 'hebrew');
+    expect(daysInCurrentMonth).toBe(30);
+    expect(prevMonthDays).toBe(30);
+    expect(prevMonthOffset).toBe(6);
+
+    const days = getMonthDays(
+      adarI,
+      false,
+      undefined,
+      undefined,
+      0,
+      undefined,
+      undefined,
+      prevMonthDays,
+      prevMonthOffset,
+      daysInCurrentMonth,
+      0,
+      'hebr',
+      'hebrew'
+    ).filter(Boolean);
+    expect(days).toHaveLength(30);
+    expect(days[0]!.text).toBe('א׳');
+    expect(days[14]!.text).toBe('ט״ו');
+    expect(dayjs(days[29]!.date).toDate()).toEqual(new Date(2024, 2, 10));
+  });
+
+  test('formats Hebrew numerals', () => {
+    expect(formatNumber(1, 'hebr')).toBe('א׳');
+    expect(formatNumber(16, 'hebr')).toBe('ט״ז');
+    expect(formatNumber(30, 'hebr')).toBe('ל׳');
+    expect(formatNumber(5785, 'hebr')).toBe('ה׳תשפ״ה');
+  });
+
+  test('renders the Hebrew month and year in the header', () => {
+    render(
+      <DateTimePicker
+        mode="single"
+        calendar="hebrew"
+        date={new Date(2024, 2, 20)}
+      />
+    );
+    expect(screen.getByText('Adar II')).toBeVisible();
+    expect(screen.getByText('5784')).toBeVisible();
+  });
+});
@@ -0,0 +1,167 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import type UmalquraCalendarSystem from '../calendar-systems/umalqura-calendar-system';
+import {
+  getDayjs,
+  getDaysInMonth,
+  getMonthDays,
+  isDateBetween,
+} from '../utils';
+
+const umalquraSystem = () =>
+  dayjs.getRegisteredCalendarSystem(
+    'islamic'
+  ) as unknown as UmalquraCalendarSystem;
+
+describe('hijriAdjustment', () => {
+  afterEach(() => {
+    umalquraSystem().setAdjustment(0);
+  });
+
+  test('shifts every Hijri month by a global adjustment', () => {
+    // 1 Ramadan 1446 is 1 March 2025 in Umm al-Qura
+    expect(getDayjs(new Date(2025, 2, 1), 'islamic').date()).toBe(1);
+
+    umalquraSystem().setAdjustment(1);
+    const ramadan = getDayjs(new Date(2025, 1, 28), 'islamic');
+    expect(ramadan.year()).toBe(1446);
+    expect(ramadan.month()).toBe(8);
+    expect(ramadan.date()).toBe(1);
+    expect(dayjs(ramadan.date(15)).toDate()).toEqual(new Date(2025, 2, 14));
+  });
+
+  test('shifts a single Hijri month and the grid around it', () => {
+    // Ramadan starts a day later locally
+    umalquraSystem().setAdjustment({ '1446-09': -1 });
+
+    const lastOfShaban = getDayjs(new Date(2025, 2, 1), 'islamic');
+    expect(lastOfShaban.month()).toBe(7);
+    expect(lastOfShaban.date()).toBe(30);
+
+    const ramadan = getDayjs(new Date(2025, 2, 10), 'islamic');
+    const { daysInCurrentMonth, prevMonthDays, prevMonthOffset } =
+      getDaysInMonth(ramadan, false, 0, 'islamic');
+    // Shawwal moves with it, as Ramadan can't shrink to 28 days
+    expect(daysInCurrentMonth).toBe(29);
+    expect(prevMonthDays).toBe(30);
+    // Sunday 2 March 2025
+    expect(prevMonthOffset).toBe(0);
+
+    const days = getMonthDays(
+      ramadan,
+      false,
+      undefined,
+      undefined,
+      0,
+      undefined,
+      undefined,
+      prevMonthDays,
+      prevMonthOffset,
+      daysInCurrentMonth,
+      0,
+      'latn',
+      'islamic'
+    ).filter(Boolean);
+    expect(dayjs(days[0]!.date).toDate()).toEqual(new Date(2025, 2, 2));
+    expect(days[0]!.isStartOfWeek).toBe(true);
+
+    expect(
+      isDateBetween(
+        new Date(2025, 2, 1),
+        {
+          startDate: getDayjs(new Date(2025, 1, 20), 'islamic'),
+          endDate: getDayjs(new Date(2025, 2, 2), 'islamic'),
+        },
+        'islamic'
+      )
+    ).toBe(true);
+  });
+
+  test('selects the adjusted Gregorian day', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        calendar="islamic"
+        hijriAdjustment={1}
+        date={new Date(2025, 1, 28)}
+        onChange={onChange}
+      />
+    );
+    expect(screen.getByText('Ramadan')).toBeVisible();
+
+    fireEvent.press(screen.getByText('10'));
+    const { date } = onChange.mock.calls[0][0];
+    expect(dayjs(date).toDate()).toEqual(new Date(2025, 2, 9));
+  });
+
+  test('is applied by Hijri pickers only, and rebuilt when it changes', () => {
+    const { rerender } = render(
+      <>
+        <DateTimePicker
+          mode="single"
+          calendar="islamic"
+          hijriAdjustment={1}
+          date={new Date(2025, 1, 28)}
+        />
+        <DateTimePicker mode="single" date={new Date(2025, 1, 28)} />
+      </>
+    );
+    expect(umalquraSystem().getActiveAdjustment()).toBe(1);
+    expect(screen.getByText('Ramadan')).toBeVisible();
+
+    rerender(
+      <>
+        <DateTimePicker
+          mode="single"
+          calendar="islamic"
+          date={new Date(2025, 1, 28)}
+        />
+        <DateTimePicker mode="single" date={new Date(2025, 1, 28)} />
+      </>
+    );
+    expect(umalquraSystem().getActiveAdjustment()).toBe(0);
+    expect(screen.queryByText('Ramadan')).toBeNull();
+  });
+
+  test('keeps a conflicting adjustment waiting until it is released', () => {
+    const onWarning = jest.fn();
+    const waiting = (
+      <DateTimePicker
+        key="waiting"
+        mode="single"
+        calendar="islamic"
+        hijriAdjustment={2}
+        date={new Date(2025, 1, 27)}
+        onWarning={onWarning}
+      />
+    );
+    const { rerender } = render(
+      <>
+        <DateTimePicker
+          key="held"
+          mode="single"
+          calendar="islamic"
+          hijriAdjustment={1}
+          date={new Date(2025, 1, 28)}
+        />
+        {waiting}
+      </>
+    );
+    expect(umalquraSystem().getActiveAdjustment()).toBe(1);
+    expect(screen.getAllByText('Ramadan')).toHaveLength(1);
+    expect(onWarning).toHaveBeenCalledWith({
+      type: 'hijri-adjustment-conflict',
+      calendar: 'islamic',
+      hijriAdjustment: 2,
+      activeHijriAdjustment: 1,
+    });
+
+    rerender(<>{waiting}</>);
+    expect(umalquraSystem().getActiveAdjustment()).toBe(2);
+    expect(screen.getAllByText('Ramadan')).toHaveLength(1);
+    expect(onWarning).toHaveBeenCalledTimes(1);
+  });
+});
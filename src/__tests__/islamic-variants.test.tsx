@@ -0,0 +1,76 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import {
+  getDayjs,
+  getDaysInMonth,
+  getMonthsArray,
+  getMonthsInYear,
+} from '../utils';
+
+describe('islamic calendar variants', () => {
+  test('converts the same Gregorian date with each variant', () => {
+    // 1 Ramadan 1446 in Umm al-Qura
+    const umalqura = getDayjs(new Date(2025, 2, 1), 'islamic');
+    expect(umalqura.month()).toBe(8);
+    expect(umalqura.date()).toBe(1);
+
+    // The civil calendar agrees on this month
+    const civil = getDayjs(new Date(2025, 2, 1), 'islamic-civil');
+    expect(civil.year()).toBe(1446);
+    expect(civil.month()).toBe(8);
+    expect(civil.date()).toBe(1);
+
+    // The astronomical epoch is one day before the civil one
+    const tbla = getDayjs(new Date(2025, 2, 1), 'islamic-tbla');
+    expect(tbla.year()).toBe(1446);
+    expect(tbla.month()).toBe(8);
+    expect(tbla.date()).toBe(2);
+    expect(dayjs(tbla.date(1)).toDate()).toEqual(new Date(2025, 1, 28));
+  });
+
+  test('uses the 30-year cycle for month lengths', () => {
+    expect(getMonthsInYear(1446, 'islamic-civil')).toBe(12);
+
+    // Dhu al-Hijjah 1445 is a leap month with 30 days, 1446 has 29
+    const leapDhuAlHijjah = getDayjs(new Date(2024, 5, 20), 'islamic-civil');
+    expect(leapDhuAlHijjah.year()).toBe(1445);
+    expect(leapDhuAlHijjah.month()).toBe(11);
+    expect(
+      getDaysInMonth(leapDhuAlHijjah, false, 0, 'islamic-civil')
+        .daysInCurrentMonth
+    ).toBe(30);
+
+    const dhuAlHijjah = getDayjs(new Date(2025, 5, 10), 'islamic-civil');
+    expect(dhuAlHijjah.year()).toBe(1446);
+    expect(dhuAlHijjah.month()).toBe(11);
+    expect(
+      getDaysInMonth(dhuAlHijjah, false, 0, 'islamic-civil').daysInCurrentMonth
+    ).toBe(29);
+  });
+
+  test('shares the Hijri month names', () => {
+    expect(
+      getMonthsArray({ calendar: 'islamic-tbla', locale: 'en' })[8]!.name.full
+    ).toBe('Ramaḍān');
+  });
+
+  test('selects Gregorian dates on the tabular grid', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        calendar="islamic-civil"
+        date={new Date(2025, 2, 10)}
+        onChange={onChange}
+      />
+    );
+    expect(screen.getByText('Ramaḍān')).toBeVisible();
+    expect(screen.getByText('1446')).toBeVisible();
+
+    fireEvent.press(screen.getByText('15'));
+    const { date } = onChange.mock.calls[0][0];
+    expect(dayjs(date).toDate()).toEqual(new Date(2025, 2, 15));
+  });
+});
@@ -0,0 +1,69 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import 'dayjs/locale/ja';
+import DateTimePicker from '../datetime-picker';
+import { getJapaneseEraYear, getJapaneseEraYearSpan } from '../utils';
+
+describe('japanese era years', () => {
+  test('switches era on the day the new era begins', () => {
+    expect(getJapaneseEraYear(new Date(2019, 3, 30), 'ja')).toBe('平成31年');
+    expect(getJapaneseEraYear(new Date(2019, 4, 1), 'ja')).toBe('令和元年');
+    expect(getJapaneseEraYear(new Date(1989, 0, 7), 'ja')).toBe('昭和64年');
+    expect(getJapaneseEraYear(new Date(1989, 0, 8), 'ja')).toBe('平成元年');
+    expect(getJapaneseEraYear(new Date(2025, 5, 1), 'ja')).toBe('令和7年');
+    expect(getJapaneseEraYear(new Date(2025, 5, 1), 'en')).toBe('Reiwa 7');
+    expect(getJapaneseEraYear(new Date(1868, 8, 7), 'ja')).toBeUndefined();
+  });
+
+  test('joins both eras across a change', () => {
+    expect(
+      getJapaneseEraYearSpan(new Date(2019, 0, 1), new Date(2019, 11, 31), 'ja')
+    ).toBe('平成31年/令和元年');
+    expect(
+      getJapaneseEraYearSpan(new Date(2019, 5, 1), new Date(2019, 5, 30), 'ja')
+    ).toBe('令和元年');
+  });
+
+  test('renders era years in the header and years grid', () => {
+    render(
+      <DateTimePicker
+        mode="single"
+        locale="ja"
+        yearFormat="era"
+        date={new Date(1989, 0, 10)}
+      />
+    );
+    expect(screen.getByText('昭和64年/平成元年')).toBeVisible();
+
+    fireEvent.press(screen.getByTestId('btn-year'));
+    expect(screen.getByText('昭和64年/平成元年')).toBeVisible();
+    expect(screen.getByText('平成2年')).toBeVisible();
+    expect(screen.getByText('昭和63年')).toBeVisible();
+  });
+
+  test('shows the era year once in the header', () => {
+    const { rerender } = render(
+      <DateTimePicker
+        mode="single"
+        locale="ja"
+        yearFormat="era"
+        date={new Date(2025, 5, 10)}
+      />
+    );
+    expect(screen.getByTestId('btn-month')).toHaveTextContent(/^6月$/);
+    expect(screen.getByTestId('btn-year')).toHaveTextContent(/^令和7年$/);
+    expect(screen.getAllByText(/令和/)).toHaveLength(1);
+
+    rerender(
+      <DateTimePicker
+        mode="single"
+        locale="en"
+        yearFormat="era"
+        date={new Date(2025, 5, 10)}
+      />
+    );
+    expect(screen.getByTestId('btn-month')).toHaveTextContent(/^June$/);
+    expect(screen.getByTestId('btn-year')).toHaveTextContent(/^Reiwa 7$/);
+    expect(screen.getAllByText(/Reiwa/)).toHaveLength(1);
+  });
+});
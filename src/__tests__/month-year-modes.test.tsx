@@ -0,0 +1,168 @@
+import React from 'react';
+import { Text } from 'react-native';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import type { CalendarMonth, CalendarYear } from '../types';
+
+// Marks each cell with its range flags
+const flags = (cell: CalendarMonth | CalendarYear) =>
+  `${cell.rangeStart ? 's' : ''}${cell.inRange ? 'm' : ''}${cell.rangeEnd ? 'e' : ''}`;
+const Month = (month: CalendarMonth) => (
+  <Text>{`${month.name.short}${flags(month)}`}</Text>
+);
+const Year = (year: CalendarYear) => (
+  <Text>{`${year.text}${flags(year)}`}</Text>
+);
+
+const toDate = (value: unknown) => dayjs(value as Date).toDate();
+
+describe('month and year modes', () => {
+  test('selects a month from the months grid', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="month"
+        date={new Date(2025, 2, 15)}
+        onChange={onChange}
+      />
+    );
+    expect(screen.getByTestId('month-selector')).toBeVisible();
+    expect(screen.queryByTestId('btn-month')).toBeNull();
+
+    fireEvent.press(screen.getByText('May'));
+    expect(toDate(onChange.mock.calls[0][0].date)).toEqual(
+      new Date(2025, 4, 1)
+    );
+    expect(screen.getByTestId('month-selector')).toBeVisible();
+
+    fireEvent.press(screen.getByTestId('btn-next'));
+    expect(screen.getByText('2026')).toBeVisible();
+    fireEvent.press(screen.getByText('February'));
+    expect(toDate(onChange.mock.calls[1][0].date)).toEqual(
+      new Date(2026, 1, 1)
+    );
+  });
+
+  test('pages the months grid by Buddhist years', () => {
+    const onYearChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="month"
+        calendar="buddhist"
+        date={new Date(2025, 0, 15)}
+        onYearChange={onYearChange}
+      />
+    );
+    expect(screen.getByText('2568')).toBeVisible();
+
+    fireEvent.press(screen.getByTestId('btn-next'));
+    expect(onYearChange).toHaveBeenLastCalledWith(2569);
+    expect(screen.getByText('2569')).toBeVisible();
+
+    fireEvent.press(screen.getByTestId('btn-prev'));
+    fireEvent.press(screen.getByTestId('btn-prev'));
+    expect(onYearChange).toHaveBeenLastCalledWith(2567);
+    expect(screen.getByText('2567')).toBeVisible();
+  });
+
+  test('returns to the months grid after picking a year', () => {
+    render(<DateTimePicker mode="month" date={new Date(2025, 2, 15)} />);
+
+    fireEvent.press(screen.getByTestId('btn-year'));
+    fireEvent.press(screen.getByText('2027'));
+    expect(screen.getByTestId('month-selector')).toBeVisible();
+    expect(screen.getByText('2027')).toBeVisible();
+  });
+
+  test('selects a range of months', () => {
+    const onChange = jest.fn();
+    const { rerender } = render(
+      <DateTimePicker mode="month" range onChange={onChange} />
+    );
+
+    fireEvent.press(screen.getByText('January'));
+    // Without a start date the grid opens on the current year
+    const year = new Date().getFullYear();
+    const first = onChange.mock.calls[0][0];
+    expect(toDate(first.startDate)).toEqual(new Date(year, 0, 1));
+    expect(first.endDate).toBeUndefined();
+
+    rerender(
+      <DateTimePicker
+        mode="month"
+        range
+        startDate={first.startDate}
+        onChange={onChange}
+      />
+    );
+    fireEvent.press(screen.getByText('March'));
+    const second = onChange.mock.calls[1][0];
+    expect(toDate(second.startDate)).toEqual(new Date(year, 0, 1));
+    expect(toDate(second.endDate)).toEqual(
+      new Date(year, 2, 31, 23, 59, 59, 999)
+    );
+
+    rerender(
+      <DateTimePicker
+        mode="month"
+        range
+        startDate={second.startDate}
+        endDate={second.endDate}
+        components={{ Month }}
+      />
+    );
+    expect(screen.getByText('Jans')).toBeVisible();
+    expect(screen.getByText('Febm')).toBeVisible();
+    expect(screen.getByText('Mare')).toBeVisible();
+    expect(screen.getByText('Apr')).toBeVisible();
+  });
+
+  test('selects a year from the years grid', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="year"
+        date={new Date(2025, 2, 15)}
+        onChange={onChange}
+      />
+    );
+    expect(screen.getByTestId('year-selector')).toBeVisible();
+
+    fireEvent.press(screen.getByText('2027'));
+    expect(toDate(onChange.mock.calls[0][0].date)).toEqual(
+      new Date(2027, 0, 1)
+    );
+    expect(screen.getByTestId('year-selector')).toBeVisible();
+  });
+
+  test('selects a range of years backwards', () => {
+    const onChange = jest.fn();
+    const { rerender } = render(
+      <DateTimePicker
+        mode="year"
+        range
+        startDate={new Date(2024, 0, 1)}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(screen.getByText('2022'));
+    const { startDate, endDate } = onChange.mock.calls[0][0];
+    expect(toDate(startDate)).toEqual(new Date(2022, 0, 1));
+    expect(toDate(endDate)).toEqual(new Date(2024, 11, 31, 23, 59, 59, 999));
+
+    rerender(
+      <DateTimePicker
+        mode="year"
+        range
+        startDate={startDate}
+        endDate={endDate}
+        components={{ Year }}
+      />
+    );
+    expect(screen.getByText('2022s')).toBeVisible();
+    expect(screen.getByText('2023m')).toBeVisible();
+    expect(screen.getByText('2024e')).toBeVisible();
+  });
+});
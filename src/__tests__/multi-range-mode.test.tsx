@@ -0,0 +1,135 @@
+import React from 'react';
+import { Text } from 'react-native';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import { mergeDateRanges } from '../utils';
+import type { CalendarDay, DateRange } from '../types';
+
+// Marks each day with its range flags
+const Day = (day: CalendarDay) => (
+  <Text>
+    {`${day.number}${day.rangeStart ? 's' : ''}${day.inMiddle ? 'm' : ''}${day.rangeEnd ? 'e' : ''}`}
+  </Text>
+);
+
+const range = (start: number, end?: number): DateRange => ({
+  startDate: dayjs(new Date(2025, 11, start)),
+  endDate:
+    end === undefined ? undefined : dayjs(new Date(2025, 11, end)).endOf('day'),
+});
+
+const toDays = (ranges: DateRange[]) =>
+  ranges.map(({ startDate, endDate }) => [
+    dayjs(startDate).date(),
+    endDate ? dayjs(endDate).date() : undefined,
+  ]);
+
+describe('multi-range mode', () => {
+  test('merges overlapping and touching ranges', () => {
+    expect(
+      toDays(
+        mergeDateRanges([range(20, 22), range(1, 3), range(4, 6), range(9)])
+      )
+    ).toEqual([
+      [1, 6],
+      [20, 22],
+      [9, undefined],
+    ]);
+    expect(toDays(mergeDateRanges([range(1, 10), range(3, 5)]))).toEqual([
+      [1, 10],
+    ]);
+    expect(toDays(mergeDateRanges([range(1, 3), range(5, 6)]))).toEqual([
+      [1, 3],
+      [5, 6],
+    ]);
+  });
+
+  test('adds a range with two presses', () => {
+    const onChange = jest.fn();
+    const { rerender } = render(
+      <DateTimePicker
+        mode="multi-range"
+        ranges={[range(2, 4)]}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(screen.getByText('10'));
+    const { ranges: opened } = onChange.mock.calls[0][0];
+    expect(toDays(opened)).toEqual([
+      [2, 4],
+      [10, undefined],
+    ]);
+
+    rerender(
+      <DateTimePicker mode="multi-range" ranges={opened} onChange={onChange} />
+    );
+    fireEvent.press(screen.getByText('8'));
+    const { ranges } = onChange.mock.calls[1][0];
+    expect(toDays(ranges)).toEqual([
+      [2, 4],
+      [8, 10],
+    ]);
+    expect(dayjs(ranges[1].startDate).toDate()).toEqual(new Date(2025, 11, 8));
+    expect(dayjs(ranges[1].endDate).toDate()).toEqual(
+      new Date(2025, 11, 10, 23, 59, 59, 999)
+    );
+  });
+
+  test('merges a new range touching an existing one', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="multi-range"
+        ranges={[range(2, 4), range(8, 10), range(5)]}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(screen.getByText('7'));
+    expect(toDays(onChange.mock.calls[0][0].ranges)).toEqual([[2, 10]]);
+  });
+
+  test('removes a range by pressing one of its endpoints', () => {
+    const onChange = jest.fn();
+    const { rerender } = render(
+      <DateTimePicker
+        mode="multi-range"
+        ranges={[range(2, 4), range(8, 10)]}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(screen.getByText('10'));
+    expect(toDays(onChange.mock.calls[0][0].ranges)).toEqual([[2, 4]]);
+
+    rerender(
+      <DateTimePicker
+        mode="multi-range"
+        ranges={[range(2, 4), range(12)]}
+        onChange={onChange}
+      />
+    );
+    fireEvent.press(screen.getByText('12'));
+    expect(toDays(onChange.mock.calls[1][0].ranges)).toEqual([[2, 4]]);
+  });
+
+  test('renders every range', () => {
+    render(
+      <DateTimePicker
+        mode="multi-range"
+        ranges={[range(2, 4), range(15, 17)]}
+        components={{ Day }}
+      />
+    );
+
+    expect(screen.getByText('2s')).toBeVisible();
+    expect(screen.getByText('3m')).toBeVisible();
+    expect(screen.getByText('4e')).toBeVisible();
+    expect(screen.getByText('10')).toBeVisible();
+    expect(screen.getByText('15s')).toBeVisible();
+    expect(screen.getByText('16m')).toBeVisible();
+    expect(screen.getByText('17e')).toBeVisible();
+  });
+});
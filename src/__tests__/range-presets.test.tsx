@@ -0,0 +1,171 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import { getPresetRange, rangePresets } from '../presets';
+import { getDayjs } from '../utils';
+import type { DateRange } from '../types';
+
+const gregory = { calendar: 'gregory', firstDayOfWeek: 0 };
+
+const toDates = (range?: DateRange) => [
+  dayjs(range?.startDate).toDate(),
+  dayjs(range?.endDate).toDate(),
+];
+
+const isSelected = (testID: string) =>
+  !!screen.getByTestId(testID).props.accessibilityState?.selected;
+
+describe('range presets', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 11, 17, 12) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('computes the built-in presets for today', () => {
+    expect(
+      toDates(getPresetRange(rangePresets.last7Days, gregory).range)
+    ).toEqual([
+      new Date(2025, 11, 11),
+      new Date(2025, 11, 17, 23, 59, 59, 999),
+    ]);
+    expect(
+      toDates(getPresetRange(rangePresets.lastMonth, gregory).range)
+    ).toEqual([new Date(2025, 10, 1), new Date(2025, 10, 30, 23, 59, 59, 999)]);
+    expect(
+      toDates(
+        getPresetRange(rangePresets.thisWeek, { ...gregory, firstDayOfWeek: 1 })
+          .range
+      )
+    ).toEqual([
+      new Date(2025, 11, 15),
+      new Date(2025, 11, 21, 23, 59, 59, 999),
+    ]);
+    expect(getPresetRange(rangePresets.custom, gregory)).toEqual({
+      range: undefined,
+      isDisabled: false,
+    });
+  });
+
+  test('keeps presets within minDate and maxDate', () => {
+    const thisMonth = getPresetRange(rangePresets.thisMonth, {
+      ...gregory,
+      minDate: new Date(2025, 11, 10),
+      maxDate: new Date(2025, 11, 20),
+    });
+    expect(toDates(thisMonth.range)).toEqual([
+      new Date(2025, 11, 10),
+      new Date(2025, 11, 20),
+    ]);
+    expect(thisMonth.isDisabled).toBe(false);
+
+    const lastMonth = getPresetRange(rangePresets.lastMonth, {
+      ...gregory,
+      minDate: new Date(2025, 11, 1),
+    });
+    expect(lastMonth.isDisabled).toBe(true);
+  });
+
+  test('follows the calendar', () => {
+    const { range } = getPresetRange(rangePresets.thisMonth, {
+      calendar: 'islamic',
+      firstDayOfWeek: 0,
+    });
+    const today = getDayjs(new Date(), 'islamic');
+    const start = getDayjs(range?.startDate, 'islamic');
+    expect(start.year()).toBe(today.year());
+    expect(start.month()).toBe(today.month());
+    expect(start.get('date')).toBe(1);
+  });
+
+  test('selects a preset and highlights the matching one', () => {
+    const onChange = jest.fn();
+    const presets = [
+      rangePresets.today,
+      rangePresets.lastMonth,
+      rangePresets.custom,
+    ];
+    const { rerender } = render(
+      <DateTimePicker mode="range" presets={presets} onChange={onChange} />
+    );
+    expect(screen.getByText('December')).toBeVisible();
+
+    fireEvent.press(screen.getByText('Last month'));
+    const { startDate, endDate } = onChange.mock.calls[0][0];
+    expect(toDates({ startDate, endDate })).toEqual([
+      new Date(2025, 10, 1),
+      new Date(2025, 10, 30, 23, 59, 59, 999),
+    ]);
+    expect(screen.getByText('November')).toBeVisible();
+
+    rerender(
+      <DateTimePicker
+        mode="range"
+        presets={presets}
+        startDate={startDate}
+        endDate={endDate}
+        onChange={onChange}
+      />
+    );
+    expect(isSelected('preset-1')).toBe(true);
+    expect(isSelected('preset-2')).toBe(false);
+
+    rerender(
+      <DateTimePicker
+        mode="range"
+        presets={presets}
+        startDate={new Date(2025, 10, 2)}
+        endDate={new Date(2025, 10, 4)}
+        onChange={onChange}
+      />
+    );
+    expect(isSelected('preset-1')).toBe(false);
+    expect(isSelected('preset-2')).toBe(true);
+
+    fireEvent.press(screen.getByText('Custom…'));
+    expect(onChange).toHaveBeenLastCalledWith({
+      startDate: undefined,
+      endDate: undefined,
+    });
+  });
+
+  test('moves the presets on after midnight', () => {
+    const onChange = jest.fn();
+    const presets = [rangePresets.today];
+    const { rerender } = render(
+      <DateTimePicker mode="range" presets={presets} onChange={onChange} />
+    );
+
+    jest.setSystemTime(new Date(2025, 11, 18, 0, 30));
+    fireEvent.press(screen.getByText('Today'));
+    const { startDate, endDate } = onChange.mock.calls[0][0];
+    expect(toDates({ startDate, endDate })).toEqual([
+      new Date(2025, 11, 18),
+      new Date(2025, 11, 18, 23, 59, 59, 999),
+    ]);
+
+    rerender(
+      <DateTimePicker
+        mode="range"
+        presets={presets}
+        startDate={startDate}
+        endDate={endDate}
+        onChange={onChange}
+      />
+    );
+    expect(isSelected('preset-0')).toBe(true);
+  });
+
+  test('lists the presets beside wide calendars', () => {
+    render(<DateTimePicker mode="range" presets={[rangePresets.today]} />);
+    expect(screen.getByTestId('presets').type).toBe('RCTScrollView');
+
+    fireEvent(screen.getByTestId('calendar'), 'layout', {
+      nativeEvent: { layout: { width: 600, height: 400 } },
+    });
+    expect(screen.getByTestId('presets').type).toBe('View');
+  });
+});
@@ -0,0 +1,104 @@
+import React from 'react';
+import { Text } from 'react-native';
+import {
+  fireEvent,
+  render,
+  screen,
+  within,
+} from '@testing-library/react-native';
+import DateTimePicker from '../datetime-picker';
+
+const previewStyles = { range_preview: { borderWidth: 3 } };
+
+const hover = (text: string) => fireEvent(screen.getByText(text), 'hoverIn');
+
+const previewText = (text: string) =>
+  within(screen.getByTestId('range-preview-tooltip')).getByText(text);
+
+const isPreviewed = (text: string) =>
+  screen.getByLabelText(text).props.style?.borderWidth === 3;
+
+describe('range preview', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 11, 1, 12) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('previews the days up to the hovered day', () => {
+    render(
+      <DateTimePicker
+        mode="range"
+        startDate={new Date(2025, 11, 10)}
+        styles={previewStyles}
+      />
+    );
+
+    hover('13');
+    expect(['11', '12', '13'].every(isPreviewed)).toBe(true);
+    expect(isPreviewed('10')).toBe(false);
+    expect(isPreviewed('14')).toBe(false);
+
+    // Before the start date the preview runs backwards
+    hover('8');
+    expect(['8', '9'].every(isPreviewed)).toBe(true);
+    expect(isPreviewed('13')).toBe(false);
+
+    fireEvent(screen.getByText('8'), 'hoverOut');
+    expect(isPreviewed('8')).toBe(false);
+  });
+
+  test('shows nothing once the range is complete', () => {
+    render(
+      <DateTimePicker
+        mode="range"
+        startDate={new Date(2025, 11, 10)}
+        endDate={new Date(2025, 11, 12)}
+        styles={previewStyles}
+        displayRangePreviewTooltip
+      />
+    );
+
+    hover('20');
+    expect(isPreviewed('20')).toBe(false);
+    expect(screen.queryByTestId('range-preview-tooltip')).toBeNull();
+  });
+
+  test('counts the days in a tooltip, dimmed when min or max reject them', () => {
+    render(
+      <DateTimePicker
+        mode="range"
+        startDate={new Date(2025, 11, 10)}
+        max={3}
+        displayRangePreviewTooltip
+        styles={{ disabled_label: { opacity: 0.5 } }}
+      />
+    );
+    expect(screen.queryByTestId('range-preview-tooltip')).toBeNull();
+
+    hover('13');
+    expect(previewText('4')).not.toHaveStyle({ opacity: 0.5 });
+
+    hover('14');
+    expect(previewText('5')).toHaveStyle({ opacity: 0.5 });
+  });
+
+  test('renders a custom tooltip', () => {
+    render(
+      <DateTimePicker
+        mode="range"
+        numerals="arab"
+        startDate={new Date(2025, 11, 10)}
+        displayRangePreviewTooltip
+        components={{
+          RangePreviewTooltip: ({ text }) => <Text>{`${text} أيام`}</Text>,
+        }}
+      />
+    );
+
+    hover('١٢');
+    expect(screen.getByText('٣ أيام')).toBeVisible();
+  });
+});
@@ -0,0 +1,132 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import { getRangeLength } from '../utils';
+
+const checkStyles = {
+  check_in_only_label: { fontStyle: 'italic' as const },
+  check_out_only_label: { textDecorationLine: 'line-through' as const },
+};
+
+const isDisabled = (text: string) =>
+  !!screen.getByLabelText(text).props.accessibilityState?.disabled;
+
+const lastRange = (onChange: jest.Mock) => {
+  const { startDate, endDate } = onChange.mock.lastCall[0];
+  return [
+    startDate && dayjs(startDate).toDate(),
+    endDate && dayjs(endDate).toDate(),
+  ];
+};
+
+describe('rangeSemantics', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 11, 1, 12) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('counts the days or the nights of a range', () => {
+    const start = new Date(2025, 11, 10);
+    const end = new Date(2025, 11, 13, 23, 59);
+    expect(getRangeLength(start, end)).toBe(3);
+    expect(getRangeLength(end, start)).toBe(3);
+    expect(getRangeLength(start, end, 'days')).toBe(4);
+  });
+
+  test('measures min and max in nights unless counting days', () => {
+    const onChange = jest.fn();
+    const { rerender } = render(
+      <DateTimePicker
+        mode="range"
+        startDate={new Date(2025, 11, 10)}
+        max={3}
+        onChange={onChange}
+      />
+    );
+
+    // 10 to 13 December is three nights
+    fireEvent.press(screen.getByText('13'));
+    expect(lastRange(onChange)).toEqual([
+      new Date(2025, 11, 10),
+      new Date(2025, 11, 13, 23, 59, 59, 999),
+    ]);
+
+    rerender(
+      <DateTimePicker
+        mode="range"
+        rangeSemantics="days"
+        startDate={new Date(2025, 11, 10)}
+        max={3}
+        onChange={onChange}
+      />
+    );
+
+    // but four days, so 13 starts a new range
+    fireEvent.press(screen.getByText('13'));
+    expect(lastRange(onChange)).toEqual([new Date(2025, 11, 13), undefined]);
+  });
+
+  test('checks out on a disabled day after a free night', () => {
+    const onChange = jest.fn();
+    const disabledDates = [new Date(2025, 11, 15), new Date(2025, 11, 16)];
+    const { rerender } = render(
+      <DateTimePicker
+        mode="range"
+        rangeSemantics="nights"
+        disabledDates={disabledDates}
+        styles={checkStyles}
+        onChange={onChange}
+      />
+    );
+
+    // 15 is check-out only, 16 has no free night before it, and 17 follows
+    // a disabled night so it is check-in only
+    expect(screen.getByText('15')).toHaveStyle(
+      checkStyles.check_out_only_label
+    );
+    expect(screen.getByText('16')).not.toHaveStyle(
+      checkStyles.check_out_only_label
+    );
+    expect(screen.getByText('17')).toHaveStyle(checkStyles.check_in_only_label);
+    expect(isDisabled('15')).toBe(true);
+
+    rerender(
+      <DateTimePicker
+        mode="range"
+        rangeSemantics="nights"
+        disabledDates={disabledDates}
+        styles={checkStyles}
+        startDate={new Date(2025, 11, 12)}
+        onChange={onChange}
+      />
+    );
+    expect(isDisabled('15')).toBe(false);
+    expect(isDisabled('16')).toBe(true);
+
+    fireEvent.press(screen.getByText('15'));
+    expect(lastRange(onChange)).toEqual([
+      new Date(2025, 11, 12),
+      new Date(2025, 11, 15, 23, 59, 59, 999),
+    ]);
+  });
+
+  test('keeps disabled days disabled when counting days', () => {
+    render(
+      <DateTimePicker
+        mode="range"
+        disabledDates={[new Date(2025, 11, 15)]}
+        startDate={new Date(2025, 11, 12)}
+        styles={checkStyles}
+      />
+    );
+
+    expect(isDisabled('15')).toBe(true);
+    expect(screen.getByText('15')).not.toHaveStyle(
+      checkStyles.check_out_only_label
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+
+const ITEM_HEIGHT = 44;
+
+// Scrolls the hours wheel, the first of the hours and minutes wheels
+const scrollHours = (hour: number) => {
+  const [hours] = screen.UNSAFE_root.findAll(
+    (node) => typeof node.type === 'string' && !!node.props.onMomentumScrollEnd
+  );
+  fireEvent(hours!, 'momentumScrollEnd', {
+    nativeEvent: { contentOffset: { y: hour * ITEM_HEIGHT } },
+  });
+};
+
+describe('range mode time picker', () => {
+  test('sets the start and end times', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        timePicker
+        initialView="time"
+        startDate={new Date(2025, 11, 1, 10, 0)}
+        endDate={new Date(2025, 11, 3, 18, 30)}
+        onChange={onChange}
+      />
+    );
+    expect(screen.getByText('10:00 – 18:30')).toBeVisible();
+    expect(screen.getByTestId('time-selector')).toBeVisible();
+
+    scrollHours(9);
+    const { startDate, endDate } = onChange.mock.calls[0][0];
+    expect(dayjs(startDate).toDate()).toEqual(new Date(2025, 11, 1, 9, 0));
+    expect(dayjs(endDate).toDate()).toEqual(new Date(2025, 11, 3, 18, 30));
+
+    fireEvent.press(screen.getByTestId('time-end'));
+    scrollHours(20);
+    expect(dayjs(onChange.mock.calls[1][0].startDate).toDate()).toEqual(
+      new Date(2025, 11, 1, 10, 0)
+    );
+    expect(dayjs(onChange.mock.calls[1][0].endDate).toDate()).toEqual(
+      new Date(2025, 11, 3, 20, 30)
+    );
+  });
+
+  test('keeps the end after the start', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        timePicker
+        initialView="time"
+        startDate={new Date(2025, 11, 1, 10, 0)}
+        endDate={new Date(2025, 11, 1, 18, 30)}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(screen.getByTestId('time-end'));
+    scrollHours(8);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  test('keeps the chosen times when pressing days', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        timePicker
+        startDate={new Date(2025, 11, 2, 10, 0)}
+        endDate={new Date(2025, 11, 3, 18, 30)}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(screen.getByText('5'));
+    expect(dayjs(onChange.mock.calls[0][0].startDate).toDate()).toEqual(
+      new Date(2025, 11, 2, 10, 0)
+    );
+    expect(dayjs(onChange.mock.calls[0][0].endDate).toDate()).toEqual(
+      new Date(2025, 11, 5, 18, 30)
+    );
+
+    fireEvent.press(screen.getByText('1'));
+    expect(dayjs(onChange.mock.calls[1][0].startDate).toDate()).toEqual(
+      new Date(2025, 11, 1, 10, 0)
+    );
+    expect(dayjs(onChange.mock.calls[1][0].endDate).toDate()).toEqual(
+      new Date(2025, 11, 3, 18, 30)
+    );
+  });
+});
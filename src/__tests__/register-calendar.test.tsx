@@ -0,0 +1,88 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import PersianCalendarSystem from '@calidy/dayjs-calendarsystems/calendarSystems/PersianCalendarSystem';
+import DateTimePicker, { registerCalendar } from '../index';
+import {
+  getDayjs,
+  getDaysInMonth,
+  getMonthsArray,
+  isCalendarSystem,
+} from '../utils';
+
+const PERSIAN_MONTHS = [
+  'Farvardin',
+  'Ordibehesht',
+  'Khordad',
+  'Tir',
+  'Mordad',
+  'Shahrivar',
+  'Mehr',
+  'Aban',
+  'Azar',
+  'Dey',
+  'Bahman',
+  'Esfand',
+];
+
+describe('registerCalendar', () => {
+  const system = new PersianCalendarSystem();
+  const { localeOverride } = system;
+
+  beforeAll(() => {
+    registerCalendar('persian', system, {
+      monthNames: (locale) =>
+        locale === 'en' ? PERSIAN_MONTHS : PERSIAN_MONTHS.map((_, i) => `${i}`),
+      monthShortNames: PERSIAN_MONTHS.map((name) => name.slice(0, 3)),
+    });
+  });
+
+  test('routes a registered calendar through the calendar-system helpers', () => {
+    expect(isCalendarSystem('persian')).toBe(true);
+
+    // Nowruz 1404
+    const nowruz = getDayjs(new Date(2025, 2, 21), 'persian');
+    expect(nowruz.year()).toBe(1404);
+    expect(nowruz.month()).toBe(0);
+    expect(nowruz.date()).toBe(1);
+
+    // Esfand 1403 is a 30-day leap month, measured through Julian days
+    const { daysInCurrentMonth, prevMonthDays } = getDaysInMonth(
+      nowruz,
+      false,
+      0,
+      'persian'
+    );
+    expect(daysInCurrentMonth).toBe(31);
+    expect(prevMonthDays).toBe(30);
+
+    const months = getMonthsArray({ calendar: 'persian', locale: 'en' });
+    expect(months).toHaveLength(12);
+    expect(months[11]!.name).toEqual({ full: 'Esfand', short: 'Esf' });
+
+    // The Gregorian month names are left alone
+    expect(dayjs.months()[0]).toBe('January');
+    // and so is the system passed in
+    expect(system.localeOverride).toBe(localeOverride);
+  });
+
+  test('renders the registered calendar and returns Gregorian dates', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        calendar="persian"
+        locale="en"
+        monthCaptionFormat="full"
+        date={new Date(2025, 2, 21)}
+        onChange={onChange}
+      />
+    );
+    expect(screen.getByText('Farvardin')).toBeVisible();
+    expect(screen.getByText('1404')).toBeVisible();
+
+    fireEvent.press(screen.getByText('13'));
+    const { date } = onChange.mock.calls[0][0];
+    expect(dayjs(date).toDate()).toEqual(new Date(2025, 3, 2));
+  });
+});
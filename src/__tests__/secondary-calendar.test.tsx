@@ -0,0 +1,105 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react-native';
+import DateTimePicker from '../datetime-picker';
+import { getDaysInMonth, getMonthDays, getSecondaryMonthSpan } from '../utils';
+
+describe('secondaryCalendar', () => {
+  test('adds the secondary day number to each day', () => {
+    const date = new Date(2025, 2, 1);
+    const { prevMonthDays, prevMonthOffset, daysInCurrentMonth } =
+      getDaysInMonth(date, false, 0, 'gregory');
+
+    const days = getMonthDays(
+      date,
+      false,
+      undefined,
+      undefined,
+      0,
+      undefined,
+      undefined,
+      prevMonthDays,
+      prevMonthOffset,
+      daysInCurrentMonth,
+      0,
+      'arab',
+      'gregory',
+      undefined,
+      'islamic'
+    ).filter(Boolean);
+
+    // 1 March 2025 is 1 Ramadan 1446, 31 March is 2 Shawwal
+    expect(days[0]!.secondaryNumber).toBe(1);
+    expect(days[0]!.secondaryText).toBe('١');
+    expect(days[30]!.secondaryNumber).toBe(2);
+  });
+
+  test('leaves the day untouched without a secondary calendar', () => {
+    const date = new Date(2025, 2, 1);
+    const days = getMonthDays(
+      date,
+      false,
+      undefined,
+      undefined,
+      0,
+      undefined,
+      undefined,
+      28,
+      6,
+      31,
+      0,
+      'latn',
+      'gregory'
+    ).filter(Boolean);
+    expect(days[0]).not.toHaveProperty('secondaryNumber');
+  });
+
+  test('spans the secondary months and years of the displayed month', () => {
+    expect(
+      getSecondaryMonthSpan({
+        date: new Date(2025, 2, 10),
+        calendar: 'gregory',
+        secondaryCalendar: 'jalali',
+        locale: 'en',
+      })
+    ).toBe('Esfand 1403 – Farvardin 1404');
+
+    expect(
+      getSecondaryMonthSpan({
+        date: new Date(2025, 5, 10),
+        calendar: 'gregory',
+        secondaryCalendar: 'jalali',
+        locale: 'en',
+      })
+    ).toBe('Khordad – Tir 1404');
+
+    // Ramadan 1446 runs from 1 to 29 March 2025
+    expect(
+      getSecondaryMonthSpan({
+        date: new Date(2025, 2, 10),
+        calendar: 'islamic',
+        secondaryCalendar: 'gregory',
+        locale: 'en',
+      })
+    ).toBe('March 2025');
+  });
+
+  test('renders the secondary labels in the days grid and header', () => {
+    render(
+      <DateTimePicker
+        mode="single"
+        calendar="gregory"
+        secondaryCalendar="islamic"
+        date={new Date(2025, 2, 10)}
+        styles={{ day_secondary_label: { fontSize: 9 } }}
+      />
+    );
+
+    expect(screen.getByTestId('secondary-month-span')).toHaveTextContent(
+      'Ramaḍān – Shawwāl 1446'
+    );
+    const secondaryLabels = screen.getAllByTestId('day-secondary-label');
+    expect(secondaryLabels).toHaveLength(31);
+    expect(secondaryLabels[0]).toHaveTextContent('1');
+    expect(secondaryLabels[0]).toHaveStyle({ fontSize: 9 });
+  });
+});
@@ -0,0 +1,158 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import { rangePresets } from '../presets';
+
+const isDisabled = (text: string) =>
+  !!screen.getByLabelText(text).props.accessibilityState?.disabled;
+
+const lastRejection = (onSelectionRejected: jest.Mock) => {
+  const { date, reason } = onSelectionRejected.mock.lastCall[0];
+  return { date: dayjs(date).format('YYYY-MM-DD'), reason };
+};
+
+describe('onSelectionRejected', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 11, 17, 12) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('reports days past max in multiple mode', () => {
+    const onChange = jest.fn();
+    const onSelectionRejected = jest.fn();
+    render(
+      <DateTimePicker
+        mode="multiple"
+        dates={[new Date(2025, 11, 3), new Date(2025, 11, 4)]}
+        max={2}
+        onChange={onChange}
+        onSelectionRejected={onSelectionRejected}
+      />
+    );
+
+    fireEvent.press(screen.getByText('5'));
+    expect(onChange).not.toHaveBeenCalled();
+    expect(lastRejection(onSelectionRejected)).toEqual({
+      date: '2025-12-05',
+      reason: 'max-count',
+    });
+  });
+
+  test('reports ranges too long or too short', () => {
+    const onChange = jest.fn();
+    const onSelectionRejected = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        startDate={new Date(2025, 11, 10)}
+        min={2}
+        max={3}
+        onChange={onChange}
+        onSelectionRejected={onSelectionRejected}
+      />
+    );
+
+    fireEvent.press(screen.getByText('14'));
+    expect(lastRejection(onSelectionRejected).reason).toBe('max-length');
+    // The pressed day still starts a new range
+    expect(dayjs(onChange.mock.lastCall[0].startDate).toDate()).toEqual(
+      new Date(2025, 11, 14)
+    );
+
+    fireEvent.press(screen.getByText('11'));
+    expect(lastRejection(onSelectionRejected).reason).toBe('min-length');
+
+    fireEvent.press(screen.getByText('12'));
+    expect(onSelectionRejected).toHaveBeenCalledTimes(2);
+  });
+
+  test('reports disabled and out of bounds days', () => {
+    const onChange = jest.fn();
+    const onSelectionRejected = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        minDate={new Date(2025, 11, 3)}
+        disabledDates={[new Date(2025, 11, 10)]}
+        onChange={onChange}
+        onSelectionRejected={onSelectionRejected}
+      />
+    );
+
+    expect(isDisabled('10')).toBe(true);
+    fireEvent.press(screen.getByText('10'));
+    expect(lastRejection(onSelectionRejected)).toEqual({
+      date: '2025-12-10',
+      reason: 'disabled',
+    });
+
+    fireEvent.press(screen.getByText('2'));
+    expect(lastRejection(onSelectionRejected)).toEqual({
+      date: '2025-12-02',
+      reason: 'out-of-bounds',
+    });
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  test('leaves disabled days unpressable without a listener', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        disabledDates={[new Date(2025, 11, 10)]}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(screen.getByText('10'));
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  test('reports the days blocked by a disabled day in the range', () => {
+    const onChange = jest.fn();
+    const onSelectionRejected = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        disallowDisabledInRange
+        disabledDates={[new Date(2025, 11, 15)]}
+        startDate={new Date(2025, 11, 12)}
+        onChange={onChange}
+        onSelectionRejected={onSelectionRejected}
+      />
+    );
+
+    expect(isDisabled('18')).toBe(true);
+    fireEvent.press(screen.getByText('18'));
+    expect(lastRejection(onSelectionRejected)).toEqual({
+      date: '2025-12-15',
+      reason: 'disabled',
+    });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  test('reports the disabled day a range would span', () => {
+    const onSelectionRejected = jest.fn();
+    render(
+      <DateTimePicker
+        mode="range"
+        disallowDisabledInRange
+        disabledDates={[new Date(2025, 11, 15)]}
+        presets={[rangePresets.last7Days]}
+        onChange={jest.fn()}
+        onSelectionRejected={onSelectionRejected}
+      />
+    );
+
+    fireEvent.press(screen.getByTestId('preset-0'));
+    expect(lastRejection(onSelectionRejected)).toEqual({
+      date: '2025-12-15',
+      reason: 'disabled',
+    });
+  });
+});
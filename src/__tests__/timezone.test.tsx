@@ -54,6 +54,16 @@ describe('timezone anchoring', () => {
       expect(d.date()).toBe(19);
     });
 
+    test('getDayjs(timeZone) keeps the wall-clock day in other calendars', () => {
+      // Already 20 April in UTC+14
+      const instant = new Date(Date.UTC(2026, 3, 19, 12));
+      (['hebrew', 'islamic'] as const).forEach((calendar) => {
+        const d = getDayjs(instant, calendar, 'Pacific/Kiritimati');
+        const day = getDayjs(new Date(2026, 3, 20, 12), calendar);
+        expect(d.format('YYYY-MM-DD')).toBe(day.format('YYYY-MM-DD'));
+      });
+    });
+
     test('getParsedDate(timeZone) reads hour/minute in that tz', () => {
       const parsed = getParsedDate(
         '2026-04-19T10:30:00Z',
@@ -0,0 +1,140 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import DateTimePicker from '../datetime-picker';
+import {
+  getSupportedYearRange,
+  isYearDisabled,
+  isYearSupported,
+} from '../utils';
+
+// 10 Dhu al-Hijjah 1500, the last month of the Umm al-Qura tables
+const LAST_MONTH = new Date(2077, 10, 7);
+// 10 Muharram 1318, the first month
+const FIRST_MONTH = new Date(1900, 4, 9);
+
+describe('Umm al-Qura supported range', () => {
+  test('bounds the islamic calendar only', () => {
+    expect(getSupportedYearRange('islamic')).toEqual({
+      minYear: 1318,
+      maxYear: 1500,
+    });
+    expect(getSupportedYearRange('gregory')).toBeUndefined();
+    expect(isYearSupported(1600, 'islamic-civil')).toBe(true);
+
+    expect(isYearDisabled(1500, {}, 'islamic')).toBe(false);
+    expect(isYearDisabled(1501, {}, 'islamic')).toBe(true);
+    expect(isYearDisabled(1317, {}, 'islamic')).toBe(true);
+  });
+
+  test('blocks the next month past the last supported year', () => {
+    const onWarning = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        calendar="islamic"
+        date={LAST_MONTH}
+        onWarning={onWarning}
+      />
+    );
+    expect(screen.getByText('1500')).toBeVisible();
+
+    fireEvent.press(screen.getByTestId('btn-next'));
+    expect(onWarning).toHaveBeenCalledWith({
+      type: 'out-of-range',
+      calendar: 'islamic',
+      year: 1501,
+      minYear: 1318,
+      maxYear: 1500,
+    });
+    expect(screen.getByText('1500')).toBeVisible();
+
+    fireEvent.press(screen.getByTestId('btn-prev'));
+    expect(onWarning).toHaveBeenCalledTimes(1);
+  });
+
+  test('blocks the previous month before the first supported year', () => {
+    const onWarning = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        calendar="islamic"
+        date={FIRST_MONTH}
+        onWarning={onWarning}
+      />
+    );
+
+    fireEvent.press(screen.getByTestId('btn-prev'));
+    expect(onWarning).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'out-of-range', year: 1317 })
+    );
+    expect(screen.getByText('1318')).toBeVisible();
+  });
+
+  test('leaves the outside days past the supported range empty', () => {
+    const { rerender } = render(
+      <DateTimePicker
+        mode="single"
+        calendar="islamic"
+        showOutsideDays
+        date={FIRST_MONTH}
+      />
+    );
+    expect(screen.getByText('1318')).toBeVisible();
+    expect(screen.getByText('10')).toBeVisible();
+
+    rerender(
+      <DateTimePicker
+        mode="single"
+        calendar="islamic"
+        showOutsideDays
+        date={LAST_MONTH}
+      />
+    );
+    expect(screen.getByText('1500')).toBeVisible();
+    // No days of Muharram 1501 follow the month
+    expect(screen.getAllByText('1')).toHaveLength(1);
+  });
+
+  test('disables unsupported years and pages in the years grid', () => {
+    const onWarning = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        calendar="islamic"
+        date={LAST_MONTH}
+        onWarning={onWarning}
+      />
+    );
+
+    fireEvent.press(screen.getByTestId('btn-year'));
+    expect(screen.getByLabelText('1501')).toBeDisabled();
+    expect(screen.getAllByLabelText('1500').pop()).toBeEnabled();
+
+    fireEvent.press(screen.getByTestId('btn-next'));
+    expect(onWarning).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'out-of-range', year: 1512 })
+    );
+    expect(screen.getByLabelText('1511')).toBeVisible();
+  });
+
+  test('ignores a year prop outside the supported range', () => {
+    const onWarning = jest.fn();
+    const onYearChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="single"
+        calendar="islamic"
+        date={new Date(2025, 2, 10)}
+        year={1600}
+        onYearChange={onYearChange}
+        onWarning={onWarning}
+      />
+    );
+
+    expect(onWarning).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'out-of-range', year: 1600 })
+    );
+    expect(onYearChange).not.toHaveBeenCalled();
+    expect(screen.getByText('1446')).toBeVisible();
+  });
+});
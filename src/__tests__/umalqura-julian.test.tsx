@@ -0,0 +1,87 @@
+import { gregorian_to_jd } from '@calidy/dayjs-calendarsystems/calendarUtils/fourmilabCalendar';
+import UmalquraCalendarSystem from '../calendar-systems/umalqura-calendar-system';
+
+// The range covered by the @umalqura/core tables
+const MIN_YEAR = 1318;
+const MAX_YEAR = 1500;
+
+describe('UmalquraCalendarSystem julian days', () => {
+  const system = new UmalquraCalendarSystem();
+
+  afterEach(() => {
+    system.setAdjustment(0);
+  });
+
+  test('converts through the Gregorian date', () => {
+    // 1 Ramadan 1446 is 1 March 2025
+    const julianDay = gregorian_to_jd(2025, 3, 1);
+    expect(system.convertToJulian(1446, 8, 1)).toBe(julianDay);
+    expect(system.convertFromJulian(julianDay)).toEqual([1446, 8, 1]);
+  });
+
+  test('round-trips every day of the supported range', () => {
+    const first = system.convertToJulian(MIN_YEAR, 0, 1);
+    const last = system.convertToJulian(MAX_YEAR, 11, 1) + 28;
+
+    let previous: [number, number, number] | undefined;
+    for (let julianDay = first; julianDay <= last; julianDay++) {
+      const [year, month, day] = system.convertFromJulian(julianDay);
+      expect(system.convertToJulian(year, month, day)).toBe(julianDay);
+
+      // Consecutive Julian days are consecutive Hijri days
+      if (previous && day !== 1) {
+        expect([year, month, day]).toEqual([
+          previous[0],
+          previous[1],
+          previous[2] + 1,
+        ]);
+      }
+      previous = [year, month, day];
+    }
+  });
+
+  test('round-trips the first and last day of every month', () => {
+    for (let year = MIN_YEAR; year <= MAX_YEAR; year++) {
+      for (let month = 0; month < 12; month++) {
+        const daysInMonth = system.daysInMonth(year, month);
+        const first = system.convertToJulian(year, month, 1);
+        expect(system.convertFromJulian(first)).toEqual([year, month, 1]);
+        expect(system.convertToJulian(year, month, daysInMonth)).toBe(
+          first + daysInMonth - 1
+        );
+      }
+    }
+  });
+
+  test('measures days across adjusted months', () => {
+    system.setAdjustment({ '1446-09': -1 });
+    expect(system.convertToJulian(1446, 8, 1)).toBe(
+      gregorian_to_jd(2025, 3, 2)
+    );
+    expect(system.convertFromJulian(gregorian_to_jd(2025, 3, 1))).toEqual([
+      1446, 7, 30,
+    ]);
+    // Ramadan can't shrink to 28 days, so Shawwal starts a day later too
+    expect(system.daysInMonth(1446, 8)).toBe(29);
+    expect(system.convertToJulian(1446, 9, 1)).toBe(
+      gregorian_to_jd(2025, 3, 31)
+    );
+    // Days past the end of the month roll over into the next one
+    expect(system.convertToJulian(1446, 8, 30)).toBe(
+      system.convertToJulian(1446, 9, 1)
+    );
+
+    // nor can Shaban grow past 30 days
+    system.setAdjustment({ '1446-09': -3 });
+    expect(system.convertToJulian(1446, 8, 1)).toBe(
+      gregorian_to_jd(2025, 3, 2)
+    );
+  });
+
+  test('throws outside the Umm al-Qura tables', () => {
+    expect(() => system.convertToJulian(1600, 0, 1)).toThrow();
+    expect(() =>
+      system.convertFromJulian(gregorian_to_jd(1850, 1, 1))
+    ).toThrow();
+  });
+});
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Text } from 'react-native';
+import { fireEvent, render, screen } from '@testing-library/react-native';
+import dayjs from 'dayjs';
+import DateTimePicker from '../datetime-picker';
+import { getWeekRange } from '../utils';
+import type { CalendarDay } from '../types';
+
+// Marks each day with its range flags
+const Day = (day: CalendarDay) => (
+  <Text>
+    {`${day.number}${day.rangeStart ? 's' : ''}${day.inMiddle ? 'm' : ''}${day.rangeEnd ? 'e' : ''}`}
+  </Text>
+);
+
+describe('week mode', () => {
+  test('snaps a day to its week', () => {
+    const week = getWeekRange(new Date(2025, 11, 31), 1);
+    expect(dayjs(week.startDate).toDate()).toEqual(new Date(2025, 11, 29));
+    expect(dayjs(week.endDate).toDate()).toEqual(
+      new Date(2026, 0, 4, 23, 59, 59, 999)
+    );
+    expect(week.weekNumber).toBe(1);
+    expect(week.year).toBe(2026);
+  });
+
+  test('selects the whole row of the pressed day', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="week"
+        startDate={new Date(2025, 11, 1)}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(screen.getByText('10'));
+    const { startDate, endDate, weekNumber, year } = onChange.mock.calls[0][0];
+    expect(dayjs(startDate).toDate()).toEqual(new Date(2025, 11, 7));
+    expect(dayjs(endDate).toDate()).toEqual(
+      new Date(2025, 11, 13, 23, 59, 59, 999)
+    );
+    expect(weekNumber).toBe(50);
+    expect(year).toBe(2025);
+  });
+
+  test('follows firstDayOfWeek', () => {
+    const onChange = jest.fn();
+    render(
+      <DateTimePicker
+        mode="week"
+        firstDayOfWeek={1}
+        startDate={new Date(2025, 11, 1)}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.press(screen.getByText('7'));
+    const { startDate, weekNumber } = onChange.mock.calls[0][0];
+    expect(dayjs(startDate).toDate()).toEqual(new Date(2025, 11, 1));
+    expect(weekNumber).toBe(49);
+  });
+
+  test('renders the selected week as a range', () => {
+    render(
+      <DateTimePicker
+        mode="week"
+        startDate={new Date(2025, 11, 7)}
+        endDate={new Date(2025, 11, 13)}
+        components={{ Day }}
+      />
+    );
+    expect(screen.getByText('7s')).toBeVisible();
+    expect(screen.getByText('10m')).toBeVisible();
+    expect(screen.getByText('13e')).toBeVisible();
+    expect(screen.getByText('14')).toBeVisible();
+  });
+});
@@ -0,0 +1,58 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react-native';
+import { Text } from 'react-native';
+import DateTimePicker from '../datetime-picker';
+import { getDayjs, getWeekNumber } from '../utils';
+
+describe('week numbers', () => {
+  test('follows ISO-8601 when weeks start on Monday', () => {
+    // Monday 29 Dec 2025 starts week 1 of 2026
+    expect(getWeekNumber(new Date(2025, 11, 29), 1)).toBe(1);
+    expect(getWeekNumber(new Date(2025, 11, 28), 1)).toBe(52);
+    // 2020 has 53 ISO weeks, running into 3 Jan 2021
+    expect(getWeekNumber(new Date(2021, 0, 3), 1)).toBe(53);
+    expect(getWeekNumber(new Date(2021, 0, 4), 1)).toBe(1);
+  });
+
+  test('counts the week holding January 1st as week 1 otherwise', () => {
+    // Sunday 28 Dec 2025 starts the week holding 1 Jan 2026
+    expect(getWeekNumber(new Date(2025, 11, 28), 0)).toBe(1);
+    expect(getWeekNumber(new Date(2025, 11, 27), 0)).toBe(52);
+    expect(getWeekNumber(new Date(2026, 0, 4), 0)).toBe(2);
+  });
+
+  test('reads the Gregorian day of other calendars', () => {
+    expect(getWeekNumber(getDayjs(new Date(2025, 2, 3), 'islamic'), 1)).toBe(
+      10
+    );
+  });
+
+  test('renders a week number column next to the days grid', () => {
+    render(
+      <DateTimePicker
+        mode="single"
+        showWeekNumbers
+        firstDayOfWeek={1}
+        date={new Date(2025, 11, 10)}
+      />
+    );
+    expect(screen.getByTestId('week-number-header')).toBeTruthy();
+
+    const weeks = screen
+      .getAllByTestId('week-number')
+      .map((week) => within(week).getByText(/\d+/).props.children);
+    expect(weeks).toEqual(['49', '50', '51', '52', '1']);
+  });
+
+  test('renders a custom week number component', () => {
+    render(
+      <DateTimePicker
+        mode="single"
+        showWeekNumbers
+        date={new Date(2025, 11, 10)}
+        components={{ WeekNumber: ({ number }) => <Text>W{number}</Text> }}
+      />
+    );
+    expect(screen.getByText('W49')).toBeVisible();
+  });
+});
@@ -1,6 +1,11 @@
 import { createContext, useContext } from 'react';
 import { CalendarViews } from './enums';
-import type { DateType, DatePickerBaseProps } from './types';
+import type {
+  CalendarType,
+  DateRange,
+  DateType,
+  DatePickerBaseProps,
+} from './types';
 
 export interface CalendarContextType extends DatePickerBaseProps {
   locale: string;
@@ -12,10 +17,14 @@ export interface CalendarContextType extends DatePickerBaseProps {
   isRTL: boolean;
   setCalendarView: (value: CalendarViews) => void;
   onSelectDate: (date: DateType) => void;
-  onSelectMonth: (month: number) => void;
+  onSelectTime: (date: DateType, edge: 'start' | 'end') => void;
+  onSelectPreset: (range?: DateRange) => void;
+  onSelectRange: (startDate: DateType, endDate: DateType) => void;
+  onSelectMonth: (month: number, year?: number) => void;
   onSelectYear: (year: number) => void;
   onChangeMonth: (value: number) => void;
   onChangeYear: (value: number) => void;
+  onChangeCalendar: (value: CalendarType) => void;
 }
 
 export const CalendarContext = createContext({} as CalendarContextType);
@@ -0,0 +1,235 @@
+import {
+  gregorian_to_jd,
+  jd_to_gregorian,
+} from '@calidy/dayjs-calendarsystems/calendarUtils/fourmilabCalendar';
+import { CalendarSystemBase, normalizeMonth } from './index';
+
+/**
+ * Lunar year data for 1900–2100, one entry per Chinese year.
+ *
+ * The low 4 bits hold the month the leap month follows (`0` for none). Bits
+ * 4–16 flag 30-day months in year order, leap month included: bit `4 + i`
+ * is set when month index `i` has 30 days, otherwise it has 29.
+ */
+const YEAR_INFO = [
+  0x16d28, 0x07520, 0x0ea50, 0x164a5, 0x064b0, 0x0a9b0, 0x15564, 0x056a0,
+  0x0b590, 0x17522, 0x07520, 0x1b256, 0x0b250, 0x0a4b0, 0x14ab5, 0x02ad0,
+  0x056b0, 0x0b693, 0x0da90, 0x1d927, 0x0e920, 0x0d250, 0x1a4d6, 0x0a560,
+  0x02b60, 0x15b54, 0x06d40, 0x0ea90, 0x1e922, 0x0e920, 0x0d266, 0x052b0,
+  0x0a570, 0x12b65, 0x0b5a0, 0x06d40, 0x0ec93, 0x07490, 0x16937, 0x0a930,
+  0x052b0, 0x0a5b6, 0x0aad0, 0x056a0, 0x1b554, 0x0ba40, 0x0b490, 0x1a932,
+  0x0a950, 0x152d7, 0x05360, 0x0aad0, 0x15aa5, 0x0db20, 0x0da40, 0x1d493,
+  0x0d4a0, 0x0a958, 0x0a970, 0x05560, 0x0ab56, 0x0ad50, 0x06d20, 0x0ea54,
+  0x0ea50, 0x064a0, 0x0c973, 0x0a9b0, 0x155a7, 0x056a0, 0x0b690, 0x17525,
+  0x0b520, 0x0b250, 0x164b4, 0x0a4b0, 0x14ab8, 0x02ad0, 0x056d0, 0x0b696,
+  0x0da90, 0x0d920, 0x1d254, 0x0d250, 0x1a4da, 0x0a560, 0x02b60, 0x05b57,
+  0x06d50, 0x0ea90, 0x1e925, 0x0e920, 0x0d260, 0x0a563, 0x0a570, 0x14d68,
+  0x035a0, 0x06d50, 0x0ec95, 0x07490, 0x06930, 0x152b4, 0x052b0, 0x0a5b0,
+  0x155a2, 0x056a0, 0x1b557, 0x0ba40, 0x0b490, 0x1a935, 0x0a950, 0x052d0,
+  0x0a6d4, 0x0ab50, 0x15aa9, 0x05d20, 0x0da50, 0x1d4a6, 0x0e4a0, 0x0c950,
+  0x152e4, 0x05560, 0x0ab50, 0x15b22, 0x06d20, 0x0ea56, 0x0f250, 0x064a0,
+  0x0c975, 0x04ab0, 0x055b0, 0x0ad63, 0x0b690, 0x1752b, 0x0b520, 0x0b250,
+  0x1a4b6, 0x0a4b0, 0x04ab0, 0x055b5, 0x05ad0, 0x0b6a0, 0x1b522, 0x0d920,
+  0x1d257, 0x0d250, 0x0a550, 0x14ad5, 0x04b60, 0x05b50, 0x0daa3, 0x0ec90,
+  0x1e928, 0x0e920, 0x0d260, 0x0a566, 0x0a570, 0x04d60, 0x06d54, 0x07550,
+  0x07490, 0x0e933, 0x06930, 0x152b7, 0x052b0, 0x0a5b0, 0x155a5, 0x056a0,
+  0x0b650, 0x174a4, 0x0b490, 0x1a958, 0x0a950, 0x052d0, 0x0aad6, 0x0ab50,
+  0x05aa0, 0x0ba54, 0x0da50, 0x0d4a0, 0x1c953, 0x0c960, 0x194e7, 0x05560,
+  0x0ab50, 0x15b25, 0x06d20, 0x0ea50, 0x0e4a4, 0x068b0, 0x0c978, 0x04ab0,
+  0x055b0, 0x0ad66, 0x0b6a0, 0x07520, 0x17254, 0x0b450, 0x0a8b0, 0x149b2,
+  0x04ab0,
+];
+
+const FIRST_YEAR = 1900;
+const LAST_YEAR = FIRST_YEAR + YEAR_INFO.length - 1;
+
+/* Lunar months and solar years realign every 19 years (235 months). */
+const METONIC_CYCLE = 19;
+
+/* Julian day of 1st month, 1st day of 1900 (31 January 1900). */
+const EPOCH = gregorian_to_jd(1900, 1, 31);
+
+const NEW_YEARS = YEAR_INFO.reduce<number[]>(
+  (newYears, _info, index) => {
+    const year = FIRST_YEAR + index;
+    const monthCount = (YEAR_INFO[index]! & 0xf) > 0 ? 13 : 12;
+    let length = 0;
+    for (let month = 0; month < monthCount; month++) {
+      length += (YEAR_INFO[index]! >> (4 + month)) & 1 ? 30 : 29;
+    }
+    if (year < LAST_YEAR) {
+      newYears.push(newYears[index]! + length);
+    }
+    return newYears;
+  },
+  [EPOCH]
+);
+
+/**
+ * Chinese lunisolar calendar system for dayjs.
+ *
+ * Years are numbered by the Gregorian year they begin in (Intl's
+ * `relatedYear`). A leap year has 13 months with the leap month right after
+ * the month it repeats. Outside 1900–2100 a year borrows the data of the year
+ * a whole number of Metonic cycles away, which is close but not exact.
+ */
+export default class ChineseCalendarSystem extends CalendarSystemBase {
+  constructor(locale = 'en') {
+    super(locale);
+    (this as unknown as { intlCalendar: string }).intlCalendar = 'chinese';
+  }
+
+  /** Converts a Gregorian date to Chinese. */
+  convertFromGregorian(
+    date:
+      | Date
+      | { year: number; month: number; day: number }
+      | { $y: number; $M: number; $D: number }
+      | string
+      | number
+      | undefined
+      | null
+  ): { year: number; month: number; day: number } {
+    const gregorian = this.validateDate(date);
+    const [year, month, day] = this.convertFromJulian(
+      gregorian_to_jd(
+        gregorian.getFullYear(),
+        gregorian.getMonth() + 1,
+        gregorian.getDate()
+      )
+    );
+    return { year, month, day };
+  }
+
+  /** Converts a Chinese date to Gregorian. */
+  convertToGregorian(
+    year: number,
+    month: number,
+    day: number,
+    _hour?: number,
+    _minute?: number,
+    _second?: number,
+    _millisecond?: number
+  ): { year: number; month: number; day: number } {
+    const [gy = 0, gm = 1, gd = 1] = jd_to_gregorian(
+      this.convertToJulian(year, month, day)
+    );
+    return { year: gy, month: gm - 1, day: gd };
+  }
+
+  convertToJulian(year: number, month: number, day: number): number {
+    const normalized = normalizeMonth(year, month, (y) => this.monthsInYear(y));
+    let julianDay = this.newYear(normalized.year);
+    for (let index = 0; index < normalized.month; index++) {
+      julianDay += this.monthLength(normalized.year, index);
+    }
+    return julianDay + day - 1;
+  }
+
+  convertFromJulian(julianDay: number): [number, number, number] {
+    const jd = Math.floor(julianDay - 0.5) + 0.5;
+    let [year = FIRST_YEAR] = jd_to_gregorian(jd);
+    while (jd < this.newYear(year)) {
+      year -= 1;
+    }
+    while (jd >= this.newYear(year + 1)) {
+      year += 1;
+    }
+
+    let month = 0;
+    let monthStart = this.newYear(year);
+    while (month < this.monthsInYear(year) - 1) {
+      const nextMonthStart = monthStart + this.monthLength(year, month);
+      if (jd < nextMonthStart) {
+        break;
+      }
+      monthStart = nextMonthStart;
+      month += 1;
+    }
+
+    return [year, month, jd - monthStart + 1];
+  }
+
+  /** Number of days in the given month: 29 or 30. */
+  daysInMonth(year?: number, month?: number): number {
+    if (year === undefined || month === undefined) {
+      const self = this as unknown as { $y: number; $M: number };
+      return this.daysInMonth(self.$y, self.$M);
+    }
+    const normalized = normalizeMonth(year, month, (y) => this.monthsInYear(y));
+    return this.monthLength(normalized.year, normalized.month);
+  }
+
+  /** Number of months in the given Chinese year: 13 with a leap month. */
+  monthsInYear(year: number): number {
+    return this.leapMonth(year) > 0 ? 13 : 12;
+  }
+
+  /**
+   * The month (1–12) the leap month of the given year repeats, which is also
+   * the leap month's 0-based index, or `0` without a leap month.
+   */
+  leapMonth(year: number): number {
+    return this.yearInfo(year) & 0xf;
+  }
+
+  isLeapYear(): boolean {
+    const cy = (this as unknown as { $y: number }).$y;
+    return this.leapMonth(cy) > 0;
+  }
+
+  /** Month names depend on the leap month, see `getMonthsArray`. */
+  monthNames(_locale?: string, _calendar?: string, _first?: string): string[] {
+    return Array.from({ length: 12 }, (_, index) => `${index + 1}`);
+  }
+
+  /** Leave the global dayjs locale untouched; see `monthNames`. */
+  localeOverride(_locale: string): Object {
+    return {};
+  }
+
+  private yearInfo(year: number): number {
+    let tableYear = year;
+    while (tableYear < FIRST_YEAR) {
+      tableYear += METONIC_CYCLE;
+    }
+    while (tableYear > LAST_YEAR) {
+      tableYear -= METONIC_CYCLE;
+    }
+    return YEAR_INFO[tableYear - FIRST_YEAR]!;
+  }
+
+  private monthLength(year: number, month: number): number {
+    return (this.yearInfo(year) >> (4 + month)) & 1 ? 30 : 29;
+  }
+
+  private yearLength(year: number): number {
+    let length = 0;
+    for (let month = 0; month < this.monthsInYear(year); month++) {
+      length += this.monthLength(year, month);
+    }
+    return length;
+  }
+
+  /** Julian day of the first day of the given Chinese year. */
+  private newYear(year: number): number {
+    const newYear = NEW_YEARS[year - FIRST_YEAR];
+    if (newYear !== undefined) {
+      return newYear;
+    }
+
+    if (year > LAST_YEAR) {
+      let julianDay = NEW_YEARS[NEW_YEARS.length - 1]!;
+      for (let index = LAST_YEAR; index < year; index++) {
+        julianDay += this.yearLength(index);
+      }
+      return julianDay;
+    }
+
+    let julianDay = EPOCH;
+    for (let index = FIRST_YEAR - 1; index >= year; index--) {
+      julianDay -= this.yearLength(index);
+    }
+    return julianDay;
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  gregorian_to_jd,
+  jd_to_gregorian,
+} from '@calidy/dayjs-calendarsystems/calendarUtils/fourmilabCalendar';
+import { CalendarSystemBase, normalizeMonth } from './index';
+
+/* Julian day of 1 Tout 1 A.M. (29 August 284 CE, Julian). */
+const COPTIC_EPOCH = 1825029.5;
+
+/**
+ * Coptic calendar system for dayjs.
+ *
+ * Twelve 30-day months are followed by the epagomenal month Nasie (month
+ * `12`), which has 5 days, or 6 when `year % 4 === 3`.
+ */
+export default class CopticCalendarSystem extends CalendarSystemBase {
+  protected epoch = COPTIC_EPOCH;
+
+  constructor(locale = 'en') {
+    super(locale);
+    (this as unknown as { intlCalendar: string }).intlCalendar = 'coptic';
+  }
+
+  /** Converts a Gregorian date to Coptic. */
+  convertFromGregorian(
+    date:
+      | Date
+      | { year: number; month: number; day: number }
+      | { $y: number; $M: number; $D: number }
+      | string
+      | number
+      | undefined
+      | null
+  ): { year: number; month: number; day: number } {
+    const gregorian = this.validateDate(date);
+    const [year, month, day] = this.convertFromJulian(
+      gregorian_to_jd(
+        gregorian.getFullYear(),
+        gregorian.getMonth() + 1,
+        gregorian.getDate()
+      )
+    );
+    return { year, month, day };
+  }
+
+  /** Converts a Coptic date to Gregorian. */
+  convertToGregorian(
+    year: number,
+    month: number,
+    day: number,
+    _hour?: number,
+    _minute?: number,
+    _second?: number,
+    _millisecond?: number
+  ): { year: number; month: number; day: number } {
+    const [gy = 0, gm = 1, gd = 1] = jd_to_gregorian(
+      this.convertToJulian(year, month, day)
+    );
+    return { year: gy, month: gm - 1, day: gd };
+  }
+
+  convertToJulian(year: number, month: number, day: number): number {
+    const normalized = normalizeMonth(year, month, () => 13);
+    return (
+      this.epoch -
+      1 +
+      365 * (normalized.year - 1) +
+      Math.floor(normalized.year / 4) +
+      30 * normalized.month +
+      day
+    );
+  }
+
+  convertFromJulian(julianDay: number): [number, number, number] {
+    const jd = Math.floor(julianDay - 0.5) + 0.5;
+    const year = Math.floor((4 * (jd - this.epoch) + 1463) / 1461);
+    const month = Math.floor((jd - this.convertToJulian(year, 0, 1)) / 30);
+    const day = jd - this.convertToJulian(year, month, 1) + 1;
+    return [year, month, day];
+  }
+
+  /** Number of days in the given month: 30, or 5–6 for Nasie. */
+  daysInMonth(year?: number, month?: number): number {
+    if (year === undefined || month === undefined) {
+      const self = this as unknown as { $y: number; $M: number };
+      return this.daysInMonth(self.$y, self.$M);
+    }
+    return (
+      this.convertToJulian(year, month + 1, 1) -
+      this.convertToJulian(year, month, 1)
+    );
+  }
+
+  /** Every year has 13 months, the last one being the epagomenal month. */
+  monthsInYear(_year: number): number {
+    return 13;
+  }
+
+  isLeapYear(): boolean {
+    const year = (this as unknown as { $y: number }).$y;
+    return ((year % 4) + 4) % 4 === 3;
+  }
+
+  /** The dayjs locale only holds 12 names, see `getMonthsArray`. */
+  monthNames(_locale?: string, _calendar?: string, _first?: string): string[] {
+    return Array.from({ length: 13 }, (_, index) => `${index + 1}`);
+  }
+
+  /** Leave the global dayjs locale untouched; see `monthNames`. */
+  localeOverride(_locale: string): Object {
+    return {};
+  }
+}
@@ -0,0 +1,19 @@
+import CopticCalendarSystem from './coptic-calendar-system';
+
+/* Julian day of 1 Meskerem 1 (29 August 8 CE, Julian), Amete Mihret era. */
+const ETHIOPIC_EPOCH = 1724220.5;
+
+/**
+ * Ethiopic calendar system for dayjs, Amete Mihret era.
+ *
+ * Month lengths and leap years follow the Coptic calendar; only the epoch
+ * differs, 276 years earlier. The 13th month is Pagumen.
+ */
+export default class EthiopicCalendarSystem extends CopticCalendarSystem {
+  protected epoch = ETHIOPIC_EPOCH;
+
+  constructor(locale = 'en') {
+    super(locale);
+    (this as unknown as { intlCalendar: string }).intlCalendar = 'ethiopic';
+  }
+}
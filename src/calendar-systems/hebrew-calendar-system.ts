@@ -0,0 +1,124 @@
+import BaseHebrewCalendarSystem from '@calidy/dayjs-calendarsystems/calendarSystems/HebrewCalendarSystem';
+import {
+  gregorian_to_jd,
+  hebrew_leap,
+  hebrew_to_jd,
+  jd_to_gregorian,
+  jd_to_hebrew,
+} from '@calidy/dayjs-calendarsystems/calendarUtils/fourmilabCalendar';
+import { normalizeMonth } from './index';
+
+/**
+ * Hebrew (Jewish) calendar system for dayjs, with months in civil order.
+ *
+ * The calidy `HebrewCalendarSystem` numbers months from Nisan, which splits a
+ * year across two runs of month indexes. Here month `0` is Tishrei and a leap
+ * year has Adar I and Adar II at indexes `5` and `6`, as `Intl` orders them.
+ */
+export default class HebrewCalendarSystem extends BaseHebrewCalendarSystem {
+  /** Converts a Gregorian date to Hebrew, with a 0-based civil month. */
+  convertFromGregorian(
+    date:
+      | Date
+      | { year: number; month: number; day: number }
+      | { $y: number; $M: number; $D: number }
+      | string
+      | number
+      | undefined
+      | null
+  ): { year: number; month: number; day: number } {
+    const gregorian = this.validateDate(date);
+    const [year = 0, month = 0, day = 0] = jd_to_hebrew(
+      gregorian_to_jd(
+        gregorian.getFullYear(),
+        gregorian.getMonth() + 1,
+        gregorian.getDate()
+      )
+    );
+    return { year, month: this.toCivilMonth(year, month), day };
+  }
+
+  /** Converts a Hebrew date to Gregorian. */
+  convertToGregorian(
+    year: number,
+    month: number,
+    day: number,
+    _hour?: number,
+    _minute?: number,
+    _second?: number,
+    _millisecond?: number
+  ): { year: number; month: number; day: number } {
+    const [gy = 0, gm = 1, gd = 1] = jd_to_gregorian(
+      this.convertToJulian(year, month, day)
+    );
+    return { year: gy, month: gm - 1, day: gd };
+  }
+
+  convertToJulian(year: number, month: number, day: number): number {
+    const normalized = normalizeMonth(year, month, (y) => this.monthsInYear(y));
+    return (
+      hebrew_to_jd(
+        normalized.year,
+        this.toFourmilabMonth(normalized.year, normalized.month),
+        1
+      ) +
+      day -
+      1
+    );
+  }
+
+  convertFromJulian(julianDay: number): [number, number, number] {
+    const [year = 0, month = 0, day = 0] = jd_to_hebrew(julianDay);
+    return [year, this.toCivilMonth(year, month), day];
+  }
+
+  /** Number of days in the given 0-based civil month. */
+  daysInMonth(year?: number, month?: number): number {
+    if (year === undefined || month === undefined) {
+      const self = this as unknown as { $y: number; $M: number };
+      return this.daysInMonth(self.$y, self.$M);
+    }
+    return (
+      this.convertToJulian(year, month + 1, 1) -
+      this.convertToJulian(year, month, 1)
+    );
+  }
+
+  /** Number of months in the given Hebrew year: 13 in leap years. */
+  monthsInYear(year: number): number {
+    return hebrew_leap(year) ? 13 : 12;
+  }
+
+  isLeapYear(): boolean {
+    const hy = (this as unknown as { $y: number }).$y;
+    return hebrew_leap(hy);
+  }
+
+  /**
+   * The base class' Nisan-first month names don't match the civil order, so
+   * month names come from `getMonthsArray` and the locale is left as is.
+   */
+  localeOverride(_locale: string): Object {
+    return {};
+  }
+
+  /** Maps a 0-based civil month to the 1-based Nisan-first Fourmilab month. */
+  private toFourmilabMonth(year: number, month: number): number {
+    const isLeap = hebrew_leap(year);
+    if (month <= 5) {
+      return month + 7;
+    }
+    if (isLeap && month === 6) {
+      return 13;
+    }
+    return month - (isLeap ? 6 : 5);
+  }
+
+  /** Maps a 1-based Nisan-first Fourmilab month to the 0-based civil month. */
+  private toCivilMonth(year: number, month: number): number {
+    if (month >= 7) {
+      return month - 7;
+    }
+    return month - 1 + (hebrew_leap(year) ? 7 : 6);
+  }
+}
@@ -0,0 +1,149 @@
+import dayjs from 'dayjs';
+import type { CalendarSystem } from '@calidy/dayjs-calendarsystems';
+import type { CalendarSystemBase as CalendarSystemBaseClass } from '@calidy/dayjs-calendarsystems/calendarSystems/CalendarSystemBase';
+import type { RegisterCalendarOptions } from '../types';
+
+/**
+ * The calidy calendar-system base class, for systems calidy doesn't ship.
+ *
+ * The typings declare a named export, but the bundle assigns the class to
+ * `module.exports`, so it has to be required as a whole.
+ */
+export const CalendarSystemBase: typeof CalendarSystemBaseClass = require('@calidy/dayjs-calendarsystems/calendarSystems/CalendarSystemBase');
+
+type MonthAwareCalendarSystem = CalendarSystemBaseClass & {
+  daysInMonth?: (year?: number, month?: number) => number;
+};
+
+type CalendarDayjs = dayjs.Dayjs & { $C?: string; $y: number; $M: number };
+
+type CalendarDayjsPrototype = {
+  daysInMonth: (this: CalendarDayjs) => number;
+  isLeapYear: (this: CalendarDayjs) => boolean;
+};
+
+const registeredSystems: Record<string, MonthAwareCalendarSystem> = {};
+const registeredOptions: Record<string, RegisterCalendarOptions> = {};
+
+let baseMethods: CalendarDayjsPrototype | undefined;
+
+/**
+ * Registers a calendar system with the calidy dayjs plugin.
+ *
+ * On every registration calidy replaces `Dayjs.prototype.daysInMonth` and
+ * `Dayjs.prototype.isLeapYear` with closures over the system being
+ * registered, so with more than one system the last one would answer for
+ * every non-Gregorian date (jalaliday's included). After registering we
+ * install methods that dispatch on the instance's `$C` and fall back to the
+ * implementations that were in place before any calendar system was
+ * registered.
+ */
+export function registerCalendarSystem(
+  name: string,
+  system: MonthAwareCalendarSystem
+) {
+  const proto = dayjs.prototype as unknown as CalendarDayjsPrototype;
+
+  if (!baseMethods) {
+    baseMethods = {
+      daysInMonth: proto.daysInMonth,
+      isLeapYear: proto.isLeapYear,
+    };
+  }
+  const base = baseMethods;
+
+  dayjs.registerCalendarSystem(name as CalendarSystem, system);
+  registeredSystems[name] = system;
+
+  proto.daysInMonth = function () {
+    const options = this.$C ? registeredOptions[this.$C] : undefined;
+    if (options?.daysInMonth) {
+      return options.daysInMonth(this.$y, this.$M);
+    }
+    const calendarSystem = this.$C ? registeredSystems[this.$C] : undefined;
+    if (calendarSystem && typeof calendarSystem.daysInMonth === 'function') {
+      return calendarSystem.daysInMonth(this.$y, this.$M);
+    }
+    return base.daysInMonth.call(this);
+  };
+
+  proto.isLeapYear = function () {
+    const calendarSystem = this.$C ? registeredSystems[this.$C] : undefined;
+    if (calendarSystem && typeof calendarSystem.isLeapYear === 'function') {
+      // Calendar systems read the year from the dayjs instance (`this.$y`).
+      return calendarSystem.isLeapYear.call(this);
+    }
+    return base.isLeapYear.call(this);
+  };
+}
+
+/**
+ * Registers a custom calendar so it can be passed as the `calendar` prop.
+ *
+ * `system` is a calidy calendar system (a `CalendarSystemBase` subclass)
+ * that converts between the calendar and Gregorian dates. Anything it
+ * doesn't know about the calendar's layout (month names, month lengths,
+ * months per year) can be supplied through `options`.
+ *
+ * calidy copies a system's month names into the global dayjs locale every
+ * time a date is converted to it, which would rename the Gregorian months
+ * everywhere else. The picker reads month names from `options` instead, so
+ * it registers a wrapper of `system` with `localeOverride` disabled, leaving
+ * the instance passed in untouched.
+ *
+ * @example
+ * import PersianCalendarSystem from '@calidy/dayjs-calendarsystems/calendarSystems/PersianCalendarSystem';
+ *
+ * registerCalendar('persian', new PersianCalendarSystem(), {
+ *   monthNames: (locale) => (locale === 'fa' ? faMonths : enMonths),
+ * });
+ *
+ * <DateTimePicker calendar="persian" ... />
+ */
+export function registerCalendar(
+  name: string,
+  system: CalendarSystemBaseClass,
+  options: RegisterCalendarOptions = {}
+) {
+  const wrappedSystem: CalendarSystemBaseClass = Object.create(system, {
+    localeOverride: { value: () => ({}) },
+  });
+  registeredOptions[name] = options;
+  registerCalendarSystem(name, wrappedSystem);
+}
+
+/**
+ * Bring a month that overflows its year back into range, carrying the
+ * excess into the year the way JS `Date` does.
+ *
+ * @returns year and 0-based month within that year
+ */
+export const normalizeMonth = (
+  year: number,
+  month: number,
+  monthsInYear: (year: number) => number
+) => {
+  let normalizedYear = year;
+  let normalizedMonth = month;
+
+  while (normalizedMonth < 0) {
+    normalizedYear -= 1;
+    normalizedMonth += monthsInYear(normalizedYear);
+  }
+
+  while (normalizedMonth >= monthsInYear(normalizedYear)) {
+    normalizedMonth -= monthsInYear(normalizedYear);
+    normalizedYear += 1;
+  }
+
+  return { year: normalizedYear, month: normalizedMonth };
+};
+
+/**
+ * Get the options a calendar was added with through `registerCalendar`.
+ *
+ * @returns the options, or undefined for calendars that weren't registered
+ */
+export const getCalendarOptions = (
+  name: string
+): RegisterCalendarOptions | undefined => registeredOptions[name];
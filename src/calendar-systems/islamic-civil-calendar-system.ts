@@ -0,0 +1,104 @@
+import HijriCalendarSystem from '@calidy/dayjs-calendarsystems/calendarSystems/HijriCalendarSystem';
+import {
+  gregorian_to_jd,
+  islamic_to_jd,
+  jd_to_gregorian,
+  jd_to_islamic,
+  leap_islamic,
+} from '@calidy/dayjs-calendarsystems/calendarUtils/fourmilabCalendar';
+import { normalizeMonth } from './index';
+
+/**
+ * Tabular Islamic calendar system for dayjs, civil epoch (Friday 16 July
+ * 622). This is the calendar `Intl` calls `islamic-civil`.
+ */
+export default class IslamicCivilCalendarSystem extends HijriCalendarSystem {
+  /* Days the epoch comes before the civil epoch. */
+  protected epochOffset = 0;
+
+  constructor(locale = 'en') {
+    super(locale);
+    (this as unknown as { intlCalendar: string }).intlCalendar =
+      'islamic-civil';
+  }
+
+  /** Converts a Gregorian date to tabular Hijri. */
+  convertFromGregorian(
+    date:
+      | Date
+      | { year: number; month: number; day: number }
+      | { $y: number; $M: number; $D: number }
+      | string
+      | number
+      | undefined
+      | null
+  ): { year: number; month: number; day: number } {
+    const gregorian = this.validateDate(date);
+    const [year, month, day] = this.convertFromJulian(
+      gregorian_to_jd(
+        gregorian.getFullYear(),
+        gregorian.getMonth() + 1,
+        gregorian.getDate()
+      )
+    );
+    return { year, month, day };
+  }
+
+  /** Converts a tabular Hijri date to Gregorian. */
+  convertToGregorian(
+    year: number,
+    month: number,
+    day: number,
+    _hour?: number,
+    _minute?: number,
+    _second?: number,
+    _millisecond?: number
+  ): { year: number; month: number; day: number } {
+    const [gy = 0, gm = 1, gd = 1] = jd_to_gregorian(
+      this.convertToJulian(year, month, day)
+    );
+    return { year: gy, month: gm - 1, day: gd };
+  }
+
+  convertToJulian(year: number, month: number, day: number): number {
+    const normalized = normalizeMonth(year, month, () => 12);
+    return (
+      islamic_to_jd(normalized.year, normalized.month + 1, 1) +
+      day -
+      1 -
+      this.epochOffset
+    );
+  }
+
+  convertFromJulian(julianDay: number): [number, number, number] {
+    const [year = 0, month = 1, day = 1] = jd_to_islamic(
+      julianDay + this.epochOffset
+    );
+    return [year, month - 1, day];
+  }
+
+  /**
+   * Number of days in the given month: 30 and 29 alternating, with a 30th
+   * day for Dhu al-Hijjah in leap years.
+   */
+  daysInMonth(year?: number, month?: number): number {
+    if (year === undefined || month === undefined) {
+      const self = this as unknown as { $y: number; $M: number };
+      return this.daysInMonth(self.$y, self.$M);
+    }
+    return (
+      this.convertToJulian(year, month + 1, 1) -
+      this.convertToJulian(year, month, 1)
+    );
+  }
+
+  isLeapYear(): boolean {
+    const hy = (this as unknown as { $y: number }).$y;
+    return leap_islamic(hy);
+  }
+
+  /** Month names come from `getMonthsArray`, as for Umm al-Qura. */
+  localeOverride(_locale: string): Object {
+    return {};
+  }
+}
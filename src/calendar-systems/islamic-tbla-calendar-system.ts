@@ -0,0 +1,17 @@
+import IslamicCivilCalendarSystem from './islamic-civil-calendar-system';
+
+/**
+ * Tabular Islamic calendar system for dayjs, astronomical epoch (Thursday
+ * 15 July 622). This is the calendar `Intl` calls `islamic-tbla`.
+ *
+ * Month lengths and leap years follow the civil variant; only the epoch is
+ * one day earlier, so every date starts a day before its civil counterpart.
+ */
+export default class IslamicTblaCalendarSystem extends IslamicCivilCalendarSystem {
+  protected epochOffset = 1;
+
+  constructor(locale = 'en') {
+    super(locale);
+    (this as unknown as { intlCalendar: string }).intlCalendar = 'islamic-tbla';
+  }
+}
@@ -1,5 +1,12 @@
 import HijriCalendarSystem from '@calidy/dayjs-calendarsystems/calendarSystems/HijriCalendarSystem';
+import {
+  gregorian_to_jd,
+  jd_to_gregorian,
+} from '@calidy/dayjs-calendarsystems/calendarUtils/fourmilabCalendar';
 import umalqura from '@umalqura/core';
+import { isEqual } from 'lodash';
+import type { HijriAdjustment } from '../types';
+import { normalizeMonth } from './index';
 
 /**
  * Islamic calendar system for dayjs, backed by `@umalqura/core` (Umm al-Qura).
@@ -14,8 +21,141 @@ import umalqura from '@umalqura/core';
  * consistent with Umm al-Qura. Localized month names and the Intl-based
  * `intlCalendar = 'islamic-umalqura'` setup are inherited from the base
  * class unchanged.
+ *
+ * Local moon sighting can start a month a day or two away from Umm al-Qura,
+ * so every conversion also applies the `HijriAdjustment` set through
+ * `setAdjustment`: the number of days added to the Umm al-Qura date, either
+ * for every month or per Hijri month. Per-month adjustments are clamped so
+ * every month keeps 29 or 30 days. Pickers share the one registered system,
+ * so they claim the adjustment through `claimAdjustment` and only one
+ * adjustment is held at a time.
  */
 export default class UmalquraCalendarSystem extends HijriCalendarSystem {
+  private adjustment: HijriAdjustment = 0;
+
+  private clampedAdjustments = new Map<string, number>();
+
+  private owners = new Set<object>();
+
+  private listeners = new Set<() => void>();
+
+  /**
+   * Sets the day adjustment applied on top of Umm al-Qura. A positive value
+   * moves the Hijri date forward, so the month starts that many days
+   * earlier.
+   */
+  setAdjustment(adjustment: HijriAdjustment = 0) {
+    this.adjustment = adjustment;
+    this.clampedAdjustments.clear();
+  }
+
+  /** The adjustment currently set through `setAdjustment`. */
+  getActiveAdjustment(): HijriAdjustment {
+    return this.adjustment;
+  }
+
+  /**
+   * Sets the adjustment for an owner, unless other owners hold a different
+   * one.
+   *
+   * @returns whether the owner's adjustment is active
+   */
+  claimAdjustment(owner: object, adjustment: HijriAdjustment): boolean {
+    const isHeldByOthers = [...this.owners].some((other) => other !== owner);
+    if (isHeldByOthers && !isEqual(adjustment, this.adjustment)) {
+      this.owners.delete(owner);
+      return false;
+    }
+
+    this.owners.add(owner);
+    if (!isEqual(adjustment, this.adjustment)) {
+      this.setAdjustment(adjustment);
+      this.notify();
+    }
+    return true;
+  }
+
+  /** Releases an owner's claim, resetting the adjustment once none is left. */
+  releaseAdjustment(owner: object) {
+    if (this.owners.delete(owner) && this.owners.size === 0) {
+      this.setAdjustment(0);
+      this.notify();
+    }
+  }
+
+  /**
+   * Listens for the claimed adjustment to change or be released.
+   *
+   * @returns a function removing the listener
+   */
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    [...this.listeners].forEach((listener) => listener());
+  }
+
+  /**
+   * Days added to the Umm al-Qura date for a Hijri month.
+   *
+   * @param year - Hijri year
+   * @param month - 0-based Hijri month
+   */
+  getAdjustment(year: number, month: number): number {
+    const adjustment = this.adjustment;
+    if (typeof adjustment === 'number') {
+      return adjustment;
+    }
+    const toKey = (y: number, m: number) =>
+      `${y}-${String(m + 1).padStart(2, '0')}`;
+    const key = toKey(year, month);
+    const [firstKey] = Object.keys(adjustment).sort();
+    if (!firstKey || key < firstKey) {
+      return 0;
+    }
+
+    // Walk from the month before the first adjusted one, which keeps its
+    // Umm al-Qura start, moving each start only as far as keeps the month
+    // before it 29 or 30 days long.
+    const [firstYear = 0, firstMonth = 1] = firstKey.split('-').map(Number);
+    let previous = normalizeMonth(firstYear, firstMonth - 2, () => 12);
+    let previousAdjustment = 0;
+    for (;;) {
+      const current = normalizeMonth(
+        previous.year,
+        previous.month + 1,
+        () => 12
+      );
+      const currentKey = toKey(current.year, current.month);
+      let clamped = this.clampedAdjustments.get(currentKey);
+      if (clamped === undefined) {
+        const requested = adjustment[currentKey] ?? 0;
+        let previousLength: number;
+        try {
+          previousLength =
+            umalqura.$.getDaysInMonth(previous.year, previous.month + 1) +
+            previousAdjustment;
+        } catch {
+          return requested;
+        }
+        clamped = Math.min(
+          Math.max(requested, previousLength - 30),
+          previousLength - 29
+        );
+        this.clampedAdjustments.set(currentKey, clamped);
+      }
+      if (currentKey === key) {
+        return clamped;
+      }
+      previous = current;
+      previousAdjustment = clamped;
+    }
+  }
+
   /**
    * Converts a Gregorian date to Umm al-Qura Hijri.
    *
@@ -35,6 +175,35 @@ export default class UmalquraCalendarSystem extends HijriCalendarSystem {
   ): { year: number; month: number; day: number } {
     const gregorian = this.validateDate(date);
     const hijri = umalqura(gregorian);
+    if (!this.adjustment) {
+      return { year: hijri.hy, month: hijri.hm - 1, day: hijri.hd };
+    }
+
+    // The adjusted month a day falls in can be the Umm al-Qura month or one
+    // of its neighbours, depending on how far their starts have moved.
+    const day = Date.UTC(
+      gregorian.getFullYear(),
+      gregorian.getMonth(),
+      gregorian.getDate()
+    );
+    for (const offset of [1, 0, -1]) {
+      const candidate = normalizeMonth(
+        hijri.hy,
+        hijri.hm - 1 + offset,
+        () => 12
+      );
+      const start = this.convertToGregorian(candidate.year, candidate.month, 1);
+      const daysSinceStart = Math.round(
+        (day - Date.UTC(start.year, start.month, start.day)) / 86400000
+      );
+      if (daysSinceStart >= 0) {
+        return {
+          year: candidate.year,
+          month: candidate.month,
+          day: daysSinceStart + 1,
+        };
+      }
+    }
     return { year: hijri.hy, month: hijri.hm - 1, day: hijri.hd };
   }
 
@@ -46,7 +215,8 @@ export default class UmalquraCalendarSystem extends HijriCalendarSystem {
    * `startOf('week')` or similar routines pass a `day` outside the Hijri
    * month's real range, we mirror the JS `Date`-style roll-over by
    * anchoring to the 1st of the target month and shifting by `day - 1`
-   * days (`hijriToGregorian` itself rejects out-of-range days).
+   * days (`hijriToGregorian` itself rejects out-of-range days). The same
+   * shift applies the month's adjustment.
    */
   convertToGregorian(
     year: number,
@@ -57,9 +227,10 @@ export default class UmalquraCalendarSystem extends HijriCalendarSystem {
     _second?: number,
     _millisecond?: number
   ): { year: number; month: number; day: number } {
-    const normalized = this.normalizeMonth(year, month);
+    const normalized = normalizeMonth(year, month, () => 12);
     const daysInMonth = this.safeDaysInMonth(normalized.year, normalized.month);
-    if (day >= 1 && day <= daysInMonth) {
+    const adjustment = this.getAdjustment(normalized.year, normalized.month);
+    if (!adjustment && day >= 1 && day <= daysInMonth) {
       const g = umalqura.$.hijriToGregorian(
         normalized.year,
         normalized.month + 1,
@@ -75,7 +246,7 @@ export default class UmalquraCalendarSystem extends HijriCalendarSystem {
     );
     const shifted = umalqura.$.addDays(
       new Date(anchor.gy, anchor.gm, anchor.gd),
-      day - 1
+      day - 1 - adjustment
     );
     return {
       year: shifted.getFullYear(),
@@ -107,35 +278,32 @@ export default class UmalquraCalendarSystem extends HijriCalendarSystem {
   }
 
   /**
-   * Julian day conversions aren't exposed by `@umalqura/core` and no code
-   * path in this library reaches them. Throw a clear error if a consumer
-   * ever calls into them so the failure is obvious rather than silent.
+   * `@umalqura/core` has no Julian day API, so both conversions bridge
+   * through the Gregorian date, adjustment and day roll-over included. Like
+   * the Gregorian conversions, they throw outside the 1318–1500 AH range
+   * the Umm al-Qura tables cover.
    */
-  convertFromJulian(_julianDay: number): [number, number, number] {
-    throw new Error(
-      'UmalquraCalendarSystem: convertFromJulian is not supported'
-    );
+  convertFromJulian(julianDay: number): [number, number, number] {
+    const [gy = 0, gm = 1, gd = 1] = jd_to_gregorian(julianDay);
+    const hijri = this.convertFromGregorian(new Date(gy, gm - 1, gd));
+    return [hijri.year, hijri.month, hijri.day];
   }
 
-  convertToJulian(_year: number, _month: number, _day: number): number {
-    throw new Error('UmalquraCalendarSystem: convertToJulian is not supported');
+  convertToJulian(year: number, month: number, day: number): number {
+    const gregorian = this.convertToGregorian(year, month, day);
+    return gregorian_to_jd(gregorian.year, gregorian.month + 1, gregorian.day);
   }
 
   private safeDaysInMonth(year: number, month: number): number {
     try {
-      return umalqura.$.getDaysInMonth(year, month + 1);
+      const next = normalizeMonth(year, month + 1, () => 12);
+      return (
+        umalqura.$.getDaysInMonth(year, month + 1) +
+        this.getAdjustment(year, month) -
+        this.getAdjustment(next.year, next.month)
+      );
     } catch {
       return 30;
     }
   }
-
-  private normalizeMonth(
-    year: number,
-    month: number
-  ): { year: number; month: number } {
-    const yearOffset = Math.floor(month / 12);
-    const normalizedMonth = ((month % 12) + 12) % 12;
-
-    return { year: year + yearOffset, month: normalizedMonth };
-  }
 }
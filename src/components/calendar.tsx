@@ -1,12 +1,13 @@
-import React, { ReactNode, useMemo } from 'react';
-import { View, ViewStyle } from 'react-native';
+import React, { ReactNode, useMemo, useState } from 'react';
+import { LayoutChangeEvent, StyleSheet, View, ViewStyle } from 'react-native';
 import { useCalendarContext } from '../calendar-context';
-import type { CalendarViews } from '../enums';
+import { PRESETS_LIST_MIN_WIDTH, type CalendarViews } from '../enums';
 import Header from './header';
 import Years from './years';
 import Months from './months';
 import Days from './days';
 import TimePicker from './time-picker';
+import Presets from './presets';
 
 const CalendarView: Record<CalendarViews, ReactNode> = {
   year: <Years />,
@@ -17,6 +18,8 @@ const CalendarView: Record<CalendarViews, ReactNode> = {
 
 const Calendar = () => {
   const {
+    mode,
+    presets,
     hideHeader,
     calendarView,
     style = {},
@@ -35,8 +38,13 @@ const Calendar = () => {
     [containerHeight]
   );
 
-  return (
-    <View style={style} className={className} testID="calendar">
+  // Presets are listed beside wide calendars and above narrow ones
+  const [width, setWidth] = useState(0);
+  const showPresets = mode === 'range' && !!presets && presets.length > 0;
+  const isPresetsList = showPresets && width >= PRESETS_LIST_MIN_WIDTH;
+
+  const content = (
+    <>
       {!hideHeader ? (
         <Header
           navigationPosition={navigationPosition}
@@ -46,8 +54,46 @@ const Calendar = () => {
         />
       ) : null}
       <View style={containerStyle}>{CalendarView[calendarView]}</View>
+    </>
+  );
+
+  return (
+    <View
+      style={style}
+      className={className}
+      testID="calendar"
+      onLayout={
+        showPresets
+          ? (event: LayoutChangeEvent) =>
+              setWidth(event.nativeEvent.layout.width)
+          : undefined
+      }
+    >
+      {isPresetsList ? (
+        <View style={[defaultStyles.row, isRTL && defaultStyles.rowReverse]}>
+          <Presets layout="list" />
+          <View style={defaultStyles.content}>{content}</View>
+        </View>
+      ) : (
+        <>
+          {showPresets ? <Presets layout="chips" /> : null}
+          {content}
+        </>
+      )}
     </View>
   );
 };
 
+const defaultStyles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+  },
+  rowReverse: {
+    flexDirection: 'row-reverse',
+  },
+  content: {
+    flex: 1,
+  },
+});
+
 export default Calendar;
@@ -13,6 +13,7 @@ import {
   CalendarComponents,
   DateType,
   CalendarEvent,
+  RangePreview,
 } from '../types';
 import { CONTAINER_HEIGHT, WEEKDAYS_HEIGHT } from '../enums';
 import { cn } from '../utils';
@@ -27,6 +28,12 @@ interface Props {
   dayIndex?: number;
   totalRows?: number;
   onSelectDate: (date: DateType) => void;
+  /** Keeps a disabled day pressable so the picker reports its rejection */
+  isRejectable?: boolean;
+  /** Called on hover and while the day is pressed in */
+  onHoverDate?: (date: DateType, isHovered: boolean) => void;
+  /** Shows the range preview tooltip over the day */
+  rangePreview?: RangePreview;
   containerHeight?: number;
   weekdaysHeight?: number;
   styles?: Styles;
@@ -47,6 +54,9 @@ const Day = ({
   dayIndex = 0,
   totalRows = 6,
   onSelectDate,
+  isRejectable = false,
+  onHoverDate,
+  rangePreview,
   containerHeight = CONTAINER_HEIGHT,
   weekdaysHeight = WEEKDAYS_HEIGHT,
   styles = {},
@@ -61,6 +71,7 @@ const Day = ({
 
   const {
     text,
+    secondaryText,
     date,
     isDisabled,
     isCurrentMonth,
@@ -75,6 +86,10 @@ const Day = ({
     inMiddle,
     rangeStart,
     rangeEnd,
+    inPreview,
+    isCheckInOnly,
+    isCheckOutOnly,
+    isRangeBlocked,
   } = day;
 
   const containerStyle = StyleSheet.flatten([
@@ -82,44 +97,90 @@ const Day = ({
     styles.day,
     isToday && styles.today,
     !isCurrentMonth && styles.outside,
+    isCheckInOnly && styles.check_in_only,
+    isCheckOutOnly && styles.check_out_only,
     isSelected && styles.selected,
     isDisabled && styles.disabled,
+    isRangeBlocked && styles.range_blocked,
     inMiddle && styles.range_middle,
     rangeStart && styles.range_start,
     rangeEnd && styles.range_end,
+    inPreview && styles.range_preview,
   ]);
 
   const textStyle = StyleSheet.flatten([
     styles.day_label,
     isToday && styles.today_label,
     !isCurrentMonth && styles.outside_label,
+    isCheckInOnly && styles.check_in_only_label,
+    isCheckOutOnly && styles.check_out_only_label,
     isSelected && styles.selected_label,
     isDisabled && styles.disabled_label,
+    isRangeBlocked && styles.range_blocked_label,
     inMiddle && styles.range_middle_label,
     rangeStart && styles.range_start_label,
     rangeEnd && styles.range_end_label,
+    inPreview && styles.range_preview_label,
+  ]);
+
+  const secondaryTextStyle = StyleSheet.flatten([
+    styles.day_secondary_label,
+    isToday && styles.today_label,
+    !isCurrentMonth && styles.outside_label,
+    isCheckInOnly && styles.check_in_only_label,
+    isCheckOutOnly && styles.check_out_only_label,
+    isSelected && styles.selected_label,
+    isDisabled && styles.disabled_label,
+    isRangeBlocked && styles.range_blocked_label,
+    inMiddle && styles.range_middle_label,
+    rangeStart && styles.range_start_label,
+    rangeEnd && styles.range_end_label,
+    inPreview && styles.range_preview_label,
   ]);
 
   const containerClassName = cn(
     classNames.day,
     isToday && classNames.today,
     !isCurrentMonth && classNames.outside,
+    isCheckInOnly && classNames.check_in_only,
+    isCheckOutOnly && classNames.check_out_only,
     isSelected && classNames.selected,
     isDisabled && classNames.disabled,
+    isRangeBlocked && classNames.range_blocked,
     inMiddle && classNames.range_middle,
     rangeStart && classNames.range_start,
-    rangeEnd && classNames.range_end
+    rangeEnd && classNames.range_end,
+    inPreview && classNames.range_preview
   );
 
   const textClassName = cn(
     classNames.day_label,
     isToday && classNames.today_label,
     !isCurrentMonth && classNames.outside_label,
+    isCheckInOnly && classNames.check_in_only_label,
+    isCheckOutOnly && classNames.check_out_only_label,
+    isSelected && classNames.selected_label,
+    isDisabled && classNames.disabled_label,
+    isRangeBlocked && classNames.range_blocked_label,
+    inMiddle && classNames.range_middle_label,
+    rangeStart && classNames.range_start_label,
+    rangeEnd && classNames.range_end_label,
+    inPreview && classNames.range_preview_label
+  );
+
+  const secondaryTextClassName = cn(
+    classNames.day_secondary_label,
+    isToday && classNames.today_label,
+    !isCurrentMonth && classNames.outside_label,
+    isCheckInOnly && classNames.check_in_only_label,
+    isCheckOutOnly && classNames.check_out_only_label,
     isSelected && classNames.selected_label,
     isDisabled && classNames.disabled_label,
+    isRangeBlocked && classNames.range_blocked_label,
     inMiddle && classNames.range_middle_label,
     rangeStart && classNames.range_start_label,
-    rangeEnd && classNames.range_end_label
+    rangeEnd && classNames.range_end_label,
+    inPreview && classNames.range_preview_label
   );
 
   const EventDots = useMemo(() => {
@@ -207,6 +268,36 @@ const Day = ({
     screenWidth,
   ]);
 
+  const PreviewTooltip = useMemo(() => {
+    if (!rangePreview) return null;
+    return (
+      <View pointerEvents="none" style={defaultStyles.previewTooltip}>
+        <View
+          style={styles.range_preview_tooltip}
+          className={classNames.range_preview_tooltip}
+          testID="range-preview-tooltip"
+        >
+          {components.RangePreviewTooltip ? (
+            components.RangePreviewTooltip(rangePreview)
+          ) : (
+            <Text
+              style={[
+                styles.range_preview_tooltip_label,
+                rangePreview.isInvalid && styles.disabled_label,
+              ]}
+              className={cn(
+                classNames.range_preview_tooltip_label,
+                rangePreview.isInvalid && classNames.disabled_label
+              )}
+            >
+              {rangePreview.text}
+            </Text>
+          )}
+        </View>
+      </View>
+    );
+  }, [rangePreview, styles, classNames, components]);
+
   const RangeFill = useMemo(() => {
     if (!inRange) return null;
     if (!isCrop) {
@@ -265,11 +356,17 @@ const Day = ({
     classNames.range_fill_weekend,
   ]);
 
+  // Pressable overrides accessibilityState.disabled with its disabled prop,
+  // so a rejectable day leaves it unset to still be announced as disabled
+  const pressProps = isRejectable
+    ? { accessibilityState: { disabled: isDisabled } }
+    : { disabled: isDisabled };
+
   return (
     <View
       style={[
         defaultStyles.dayWrapper,
-        isTooltipVisible && defaultStyles.dayWrapperOverlay,
+        (isTooltipVisible || rangePreview) && defaultStyles.dayWrapperOverlay,
       ]}
     >
       {RangeFill}
@@ -279,8 +376,12 @@ const Day = ({
       >
         {components.Day ? (
           <Pressable
-            disabled={isDisabled}
+            {...pressProps}
             onPress={() => onSelectDate(date)}
+            onHoverIn={onHoverDate && (() => onHoverDate(date, true))}
+            onHoverOut={onHoverDate && (() => onHoverDate(date, false))}
+            onPressIn={onHoverDate && (() => onHoverDate(date, true))}
+            onPressOut={onHoverDate && (() => onHoverDate(date, false))}
             accessibilityRole="button"
             accessibilityLabel={text}
             style={containerStyle}
@@ -289,8 +390,12 @@ const Day = ({
           </Pressable>
         ) : (
           <Pressable
-            disabled={isDisabled}
+            {...pressProps}
             onPress={() => onSelectDate(date)}
+            onHoverIn={onHoverDate && (() => onHoverDate(date, true))}
+            onHoverOut={onHoverDate && (() => onHoverDate(date, false))}
+            onPressIn={onHoverDate && (() => onHoverDate(date, true))}
+            onPressOut={onHoverDate && (() => onHoverDate(date, false))}
             accessibilityRole="button"
             accessibilityLabel={text}
             style={containerStyle}
@@ -299,11 +404,21 @@ const Day = ({
             <Text style={textStyle} className={textClassName}>
               {text}
             </Text>
+            {secondaryText ? (
+              <Text
+                style={secondaryTextStyle}
+                className={secondaryTextClassName}
+                testID="day-secondary-label"
+              >
+                {secondaryText}
+              </Text>
+            ) : null}
             {EventDots}
             {EventTooltip}
           </Pressable>
         )}
       </View>
+      {PreviewTooltip}
     </View>
   );
 };
@@ -343,6 +458,14 @@ const defaultStyles = StyleSheet.create({
     height: 6,
     borderRadius: 3,
   },
+  previewTooltip: {
+    position: 'absolute',
+    bottom: '100%',
+    left: -40,
+    right: -40,
+    alignItems: 'center',
+    marginBottom: 4,
+  },
   eventTooltip: {
     position: 'absolute',
     backgroundColor: '#FFFFFF',
@@ -390,6 +513,9 @@ const customComparator = (prev: Readonly<Props>, next: Readonly<Props>) => {
   const areEqual =
     isEqual(prev.day, next.day) &&
     prev.onSelectDate === next.onSelectDate &&
+    prev.isRejectable === next.isRejectable &&
+    prev.onHoverDate === next.onHoverDate &&
+    isEqual(prev.rangePreview, next.rangePreview) &&
     prev.containerHeight === next.containerHeight &&
     isEqual(prev.styles, next.styles) &&
     isEqual(prev.classNames, next.classNames) &&
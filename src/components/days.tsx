@@ -1,4 +1,4 @@
-import React, { useMemo, useCallback, useState } from 'react';
+import React, { useMemo, useCallback, useRef, useState } from 'react';
 import { View, StyleSheet } from 'react-native';
 import dayjs from 'dayjs';
 import { useCalendarContext } from '../calendar-context';
@@ -12,14 +12,28 @@ import {
   getDayjs,
   addTime,
   DATE_FORMAT,
+  formatNumber,
+  getWeekNumber,
+  getRangeOfDay,
+  dateToUnix,
+  getRangeLength,
+  isDateDisabled,
+  getFirstDisabledDate,
+  getDisabledDateInRange,
+  getFixedRangeEnd,
+  getNextDisabledOffsets,
 } from '../utils';
 import Weekdays from './weekdays';
-import type { DateType, CalendarEvent } from 'src/types';
+import WeekNumber from './week-number';
+import { useDragSelect, type DragPoint } from '../hooks/use-drag-select';
+import { CONTAINER_HEIGHT, WEEKDAYS_HEIGHT } from '../enums';
+import type { DateType, CalendarEvent, RangePreview } from 'src/types';
 
 const Days = () => {
   const {
     mode,
     calendar,
+    secondaryCalendar,
     locale,
     numerals = 'latn',
     timeZone,
@@ -27,16 +41,21 @@ const Days = () => {
     startDate,
     endDate,
     dates,
+    ranges,
     currentDate,
     onSelectDate,
+    onSelectRange,
+    onChangeMonth,
+    dragToSelect,
     showOutsideDays,
+    showWeekNumbers,
     minDate,
     maxDate,
     enabledDates,
     disabledDates,
     firstDayOfWeek,
-    containerHeight,
-    weekdaysHeight,
+    containerHeight = CONTAINER_HEIGHT,
+    weekdaysHeight = WEEKDAYS_HEIGHT,
     styles,
     classNames,
     weekdaysFormat,
@@ -47,7 +66,14 @@ const Days = () => {
     events = [],
     eventViewMode = false,
     displayEventTooltip = false,
+    displayRangePreviewTooltip = false,
+    rangeSemantics,
+    disallowDisabledInRange = false,
+    fixedRangeLength,
+    min,
+    max,
     onEventDayPress,
+    onSelectionRejected,
   } = useCalendarContext();
 
   const style = useMemo(() => createDefaultStyles(isRTL), [isRTL]);
@@ -95,8 +121,62 @@ const Days = () => {
     return map;
   }, [events, calendar]);
 
+  // Dragging in range mode selects from the pressed day to the one under
+  // the pointer, turning the month while held at a side of the grid
+  const dragAnchorRef = useRef<DateType>();
+  const dragDayRef = useRef<DateType>();
+
+  const getDragDay = useCallback(
+    ({ x, y, width }: DragPoint) => {
+      const rowHeight = (containerHeight - weekdaysHeight) / 6;
+      if (!daysGridRef.current || width <= 0 || rowHeight <= 0) {
+        return undefined;
+      }
+      const column = Math.min(6, Math.max(0, Math.floor((x / width) * 7)));
+      const row = Math.max(0, Math.floor(y / rowHeight));
+      const day = daysGridRef.current[row * 7 + (isRTL ? 6 - column : column)];
+      return day && !day.isDisabled
+        ? getDayjs(day.date, calendar, timeZone)
+        : undefined;
+    },
+    [containerHeight, weekdaysHeight, isRTL, calendar, timeZone]
+  );
+
+  const {
+    ref: dragRef,
+    handlers: dragHandlers,
+    consumeDrag,
+  } = useDragSelect({
+    enabled:
+      !!dragToSelect && mode === 'range' && !fixedRangeLength && !eventViewMode,
+    onStart: (point) => {
+      dragAnchorRef.current = getDragDay(point);
+    },
+    onMove: (point) => {
+      const day = getDragDay(point);
+      // Moves within the same day keep the range
+      if (
+        dragAnchorRef.current &&
+        day &&
+        !areDatesOnSameDay(day, dragDayRef.current, calendar)
+      ) {
+        dragDayRef.current = day;
+        onSelectRange(dragAnchorRef.current, day);
+      }
+    },
+    onEnd: () => {
+      dragAnchorRef.current = undefined;
+      dragDayRef.current = undefined;
+    },
+    onEdgeHover: (side) => onChangeMonth((side === 'right') !== isRTL ? 1 : -1),
+  });
+
   const handlePressDay = useCallback(
     (selectedDate: DateType) => {
+      if (consumeDrag()) {
+        return;
+      }
+
       const selectedDayKey = getDayjs(selectedDate, calendar).format(
         DATE_FORMAT
       );
@@ -126,6 +206,7 @@ const Days = () => {
     },
     [
       calendar,
+      consumeDrag,
       displayEventTooltip,
       eventViewMode,
       eventsMap,
@@ -148,7 +229,7 @@ const Days = () => {
       daysInNextMonth,
     } = getDaysInMonth(currentDate, showOutsideDays, firstDayOfWeek, calendar);
 
-    return getMonthDays(
+    const monthDays = getMonthDays(
       currentDate,
       showOutsideDays,
       minDate,
@@ -162,8 +243,73 @@ const Days = () => {
       daysInNextMonth,
       numerals,
       calendar,
-      timeZone
-    ).map((day, index) => {
+      timeZone,
+      secondaryCalendar
+    );
+
+    const bounds = { minDate, maxDate, enabledDates, disabledDates };
+
+    // With disallowDisabledInRange, the pending range can't reach past the
+    // nearest disabled day on either side of its start
+    let blockedAfter: number | undefined;
+    let blockedBefore: number | undefined;
+    if (
+      mode === 'range' &&
+      disallowDisabledInRange &&
+      !fixedRangeLength &&
+      startDate &&
+      !endDate
+    ) {
+      const toUnix = (value: DateType) =>
+        dateToUnix(getDayjs(value, calendar), calendar);
+      const visibleDays = monthDays.filter(Boolean);
+      const firstDay = visibleDays[0];
+      const lastDay = visibleDays[visibleDays.length - 1];
+
+      if (lastDay && toUnix(lastDay.date) > toUnix(startDate)) {
+        const disabledDate = getFirstDisabledDate(
+          startDate,
+          lastDay.date,
+          bounds,
+          calendar,
+          timeZone
+        );
+        blockedAfter = disabledDate && toUnix(disabledDate);
+      }
+      if (firstDay && toUnix(firstDay.date) < toUnix(startDate)) {
+        const disabledDate = getFirstDisabledDate(
+          startDate,
+          firstDay.date,
+          bounds,
+          calendar,
+          timeZone
+        );
+        blockedBefore = disabledDate && toUnix(disabledDate);
+      }
+    }
+
+    // With a fixed length, the disabled days are found once for the visible
+    // days and the span of the last one, instead of walking each span
+    const firstCellIndex = monthDays.findIndex(Boolean);
+    const lastCell = monthDays.filter(Boolean).pop();
+    const nextDisabledOffsets =
+      mode === 'range' && fixedRangeLength && lastCell
+        ? getNextDisabledOffsets(
+            monthDays[firstCellIndex]!.date,
+            getFixedRangeEnd(
+              lastCell.date,
+              fixedRangeLength,
+              rangeSemantics,
+              calendar,
+              timeZone
+            ),
+            bounds,
+            calendar,
+            timeZone
+          )
+        : undefined;
+
+    return monthDays.map((day, index) => {
       if (!day) return null;
 
       let leftCrop = day.dayOfMonth === 1;
@@ -177,17 +323,84 @@ const Days = () => {
       let inMiddle = false;
       let rangeStart = false;
       let rangeEnd = false;
+      let { isDisabled } = day;
+      let isCheckInOnly = false;
+      let isCheckOutOnly = false;
+
+      // Counting nights, a disabled day still ends a stay when the night
+      // before it is free, and a day after a disabled night only starts one
+      if (mode === 'range' && rangeSemantics === 'nights') {
+        const isNightBeforeDisabled = isDateDisabled(
+          getDayjs(day.date, calendar).subtract(1, 'day'),
+          bounds
+        );
+        isCheckInOnly = !day.isDisabled && isNightBeforeDisabled;
+        isCheckOutOnly = day.isDisabled && !isNightBeforeDisabled;
+
+        if (
+          isCheckOutOnly &&
+          startDate &&
+          !endDate &&
+          dateToUnix(getDayjs(day.date, calendar), calendar) >
+            dateToUnix(getDayjs(startDate, calendar), calendar)
+        ) {
+          isDisabled = false;
+        }
+      }
+
+      let isRangeBlocked = false;
+      if (fixedRangeLength && nextDisabledOffsets) {
+        // The fixed-length span starting on the day can't run into a
+        // disabled day or past maxDate. Counting nights, it may end on one.
+        const offset = index - firstCellIndex;
+        const spanEnd =
+          offset +
+          getRangeLength(
+            day.date,
+            getFixedRangeEnd(
+              day.date,
+              fixedRangeLength,
+              rangeSemantics,
+              calendar,
+              timeZone
+            ),
+            'nights',
+            calendar,
+            timeZone
+          );
+        isRangeBlocked =
+          !isDisabled &&
+          nextDisabledOffsets[offset]! <
+            (rangeSemantics === 'days' ? spanEnd + 1 : spanEnd);
+        isDisabled = isDisabled || isRangeBlocked;
+      } else if (blockedAfter !== undefined || blockedBefore !== undefined) {
+        const dayUnix = dateToUnix(getDayjs(day.date, calendar), calendar);
+        isRangeBlocked =
+          !isDisabled &&
+          ((blockedAfter !== undefined && dayUnix > blockedAfter) ||
+            (blockedBefore !== undefined && dayUnix < blockedBefore));
+        isDisabled = isDisabled || isRangeBlocked;
+      }
+
+      if (mode === 'range' || mode === 'week' || mode === 'multi-range') {
+        // Multi-range days are styled by the range they belong to
+        const { startDate: start, endDate: end } =
+          mode === 'multi-range'
+            ? (getRangeOfDay(day.date, ranges || [], calendar) ?? {
+                startDate: undefined,
+                endDate: undefined,
+              })
+            : { startDate, endDate };
 
-      if (mode === 'range') {
         rightCrop = false;
-        const selectedStartDay = areDatesOnSameDay(
+        const selectedStartDay = areDatesOnSameDay(day.date, start, calendar);
+        const selectedEndDay = areDatesOnSameDay(day.date, end, calendar);
+        isSelected = selectedStartDay || selectedEndDay;
+        inRange = isDateBetween(
           day.date,
-          startDate,
+          { startDate: start, endDate: end },
           calendar
         );
-        const selectedEndDay = areDatesOnSameDay(day.date, endDate, calendar);
-        isSelected = selectedStartDay || selectedEndDay;
-        inRange = isDateBetween(day.date, { startDate, endDate }, calendar);
 
         if (selectedStartDay) leftCrop = true;
         if (selectedEndDay) rightCrop = true;
@@ -197,8 +410,8 @@ const Days = () => {
         if (
           (isFirstDayOfMonth && selectedEndDay) ||
           (isLastDayOfMonth && selectedStartDay) ||
-          getDayjs(startDate, calendar).format('DDMMYYYY') ===
-            getDayjs(endDate, calendar).format('DDMMYYYY')
+          getDayjs(start, calendar).format('DDMMYYYY') ===
+            getDayjs(end, calendar).format('DDMMYYYY')
         ) {
           inRange = false;
         }
@@ -269,6 +482,10 @@ const Days = () => {
 
       return {
         ...day,
+        isDisabled,
+        isCheckInOnly,
+        isCheckOutOnly,
+        isRangeBlocked,
         isToday,
         isSelected,
         inRange,
@@ -282,7 +499,11 @@ const Days = () => {
     });
   }, [
     mode,
+    rangeSemantics,
+    disallowDisabledInRange,
+    fixedRangeLength,
     calendar,
+    secondaryCalendar,
     numerals,
     timeZone,
     showOutsideDays,
@@ -295,10 +516,216 @@ const Days = () => {
     startDate,
     endDate,
     dates,
+    ranges,
     multiRangeMode,
     currentDate,
   ]);
 
+  const daysGridRef = useRef(daysGrid);
+  daysGridRef.current = daysGrid;
+
+  // While only the start of a range is picked, hovering a day previews the
+  // range it would complete. With a fixed length, it previews the span a
+  // press on the day would select.
+  const [hoveredDate, setHoveredDate] = useState<DateType>();
+
+  const handleHoverDay = useCallback(
+    (hovered: DateType, isHovered: boolean) => {
+      setHoveredDate((current) =>
+        isHovered ? hovered : current === hovered ? undefined : current
+      );
+    },
+    []
+  );
+
+  const preview = useMemo(() => {
+    if (mode === 'range' && fixedRangeLength && hoveredDate && !eventViewMode) {
+      const fixedEnd = getFixedRangeEnd(
+        hoveredDate,
+        fixedRangeLength,
+        rangeSemantics,
+        calendar,
+        timeZone
+      );
+      const nights = getRangeLength(
+        hoveredDate,
+        fixedEnd,
+        'nights',
+        calendar,
+        timeZone
+      );
+      const bounds = { minDate, maxDate, enabledDates, disabledDates };
+
+      return {
+        hoveredDate,
+        startDate: hoveredDate,
+        endDate: fixedEnd,
+        days: nights + 1,
+        nights,
+        rangeSemantics: rangeSemantics ?? 'nights',
+        text: formatNumber(
+          rangeSemantics === 'nights' ? nights : nights + 1,
+          numerals
+        ),
+        isInvalid:
+          isDateDisabled(getDayjs(hoveredDate, calendar), bounds) ||
+          !!getDisabledDateInRange(
+            hoveredDate,
+            fixedEnd,
+            bounds,
+            rangeSemantics,
+            calendar,
+            timeZone
+          ),
+      };
+    }
+
+    if (
+      mode !== 'range' ||
+      eventViewMode ||
+      !startDate ||
+      endDate ||
+      !hoveredDate ||
+      areDatesOnSameDay(hoveredDate, startDate, calendar)
+    ) {
+      return undefined;
+    }
+
+    const nights = getRangeLength(
+      startDate,
+      hoveredDate,
+      'nights',
+      calendar,
+      timeZone
+    );
+    // min and max count nights unless the range counts days
+    const length = rangeSemantics === 'days' ? nights + 1 : nights;
+    const isBefore =
+      dateToUnix(getDayjs(hoveredDate, calendar), calendar) <
+      dateToUnix(getDayjs(startDate, calendar), calendar);
+
+    return {
+      hoveredDate,
+      startDate: isBefore ? hoveredDate : startDate,
+      endDate: isBefore ? startDate : hoveredDate,
+      days: nights + 1,
+      nights,
+      rangeSemantics: rangeSemantics ?? 'nights',
+      text: formatNumber(
+        rangeSemantics === 'nights' ? nights : nights + 1,
+        numerals
+      ),
+      isInvalid: !!((max && length > max) || (min && length < min)),
+    };
+  }, [
+    mode,
+    rangeSemantics,
+    eventViewMode,
+    startDate,
+    endDate,
+    hoveredDate,
+    fixedRangeLength,
+    minDate,
+    maxDate,
+    enabledDates,
+    disabledDates,
+    calendar,
+    timeZone,
+    numerals,
+    min,
+    max,
+  ]);
+
+  const rangePreview = useMemo<RangePreview | undefined>(
+    () =>
+      preview && {
+        days: preview.days,
+        nights: preview.nights,
+        rangeSemantics: preview.rangeSemantics,
+        text: preview.text,
+        isInvalid: preview.isInvalid,
+      },
+    [preview]
+  );
+
+  const previewDays = useMemo(
+    () =>
+      preview
+        ? daysGrid?.map(
+            (day) =>
+              day && {
+                ...day,
+                inPreview:
+                  !day.isSelected &&
+                  (isDateBetween(day.date, preview, calendar) ||
+                    areDatesOnSameDay(day.date, preview.hoveredDate, calendar)),
+              }
+          )
+        : daysGrid,
+    [daysGrid, preview, calendar]
+  );
+
+  const weekNumbers = useMemo(() => {
+    if (!showWeekNumbers || !daysGrid) return [];
+    const weeks = [];
+    for (let index = 0; index < daysGrid.length; index += 7) {
+      const day = daysGrid.slice(index, index + 7).find(Boolean);
+      if (!day) continue;
+      const number = getWeekNumber(day.date, firstDayOfWeek);
+      weeks.push({ number, text: formatNumber(number, numerals) });
+    }
+    return weeks;
+  }, [showWeekNumbers, daysGrid, firstDayOfWeek, numerals]);
+
+  const days = (
+    <View
+      ref={dragRef}
+      style={[containerStyle, showWeekNumbers && style.weekNumbersDays]}
+      className={classNames?.days}
+      testID="days"
+      {...dragHandlers}
+    >
+      {previewDays?.map((day, index) => {
+        if (!day) return <EmptyDay key={index} />;
+        const dayKey = getDayjs(day.date, calendar).format(DATE_FORMAT);
+        const dayEvents = eventsMap.get(dayKey) || [];
+        const eventDots = dayEvents.map((event) => event.color);
+        const totalRows = Math.ceil(previewDays.length / 7);
+        return (
+          <Day
+            key={index}
+            day={day}
+            dayIndex={index}
+            totalRows={totalRows}
+            eventDots={eventDots}
+            dayEvents={dayEvents}
+            onSelectDate={handlePressDay}
+            isRejectable={!!onSelectionRejected && !eventViewMode}
+            onHoverDate={mode === 'range' ? handleHoverDay : undefined}
+            rangePreview={
+              displayRangePreviewTooltip &&
+              preview &&
+              areDatesOnSameDay(day.date, preview.hoveredDate, calendar)
+                ? rangePreview
+                : undefined
+            }
+            eventViewMode={eventViewMode}
+            isTooltipVisible={
+              eventViewMode &&
+              displayEventTooltip &&
+              openedTooltipDate === dayKey
+            }
+            containerHeight={containerHeight}
+            weekdaysHeight={weekdaysHeight}
+            styles={styles}
+            classNames={classNames}
+            components={components}
+          />
+        );
+      })}
+    </View>
+  );
+
   return (
     <View style={style.container} testID="day-selector">
       {!hideWeekdays ? (
@@ -311,39 +738,29 @@ const Days = () => {
           weekdaysHeight={weekdaysHeight}
           components={components}
           isRTL={isRTL}
+          showWeekNumbers={showWeekNumbers}
         />
       ) : null}
-      <View style={containerStyle} className={classNames?.days} testID="days">
-        {daysGrid?.map((day, index) => {
-          if (!day) return <EmptyDay key={index} />;
-          const dayKey = getDayjs(day.date, calendar).format(DATE_FORMAT);
-          const dayEvents = eventsMap.get(dayKey) || [];
-          const eventDots = dayEvents.map((event) => event.color);
-          const totalRows = Math.ceil(daysGrid.length / 7);
-          return (
-            <Day
-              key={index}
-              day={day}
-              dayIndex={index}
-              totalRows={totalRows}
-              eventDots={eventDots}
-              dayEvents={dayEvents}
-              onSelectDate={handlePressDay}
-              eventViewMode={eventViewMode}
-              isTooltipVisible={
-                eventViewMode &&
-                displayEventTooltip &&
-                openedTooltipDate === dayKey
-              }
-              containerHeight={containerHeight}
-              weekdaysHeight={weekdaysHeight}
-              styles={styles}
-              classNames={classNames}
-              components={components}
-            />
-          );
-        })}
-      </View>
+      {showWeekNumbers ? (
+        <View style={style.weekNumbersContainer}>
+          <View>
+            {weekNumbers.map((week, index) => (
+              <WeekNumber
+                key={index}
+                week={week}
+                containerHeight={containerHeight}
+                weekdaysHeight={weekdaysHeight}
+                styles={styles}
+                classNames={classNames}
+                components={components}
+              />
+            ))}
+          </View>
+          {days}
+        </View>
+      ) : (
+        days
+      )}
     </View>
   );
 };
@@ -361,6 +778,15 @@ const createDefaultStyles = (isRTL: boolean) =>
       flexDirection: isRTL ? 'row-reverse' : 'row',
       alignContent: 'flex-start',
     },
+    weekNumbersContainer: {
+      width: '100%',
+      height: '100%',
+      flexDirection: isRTL ? 'row-reverse' : 'row',
+    },
+    weekNumbersDays: {
+      flex: 1,
+      width: 'auto',
+    },
   });
 
 export default Days;
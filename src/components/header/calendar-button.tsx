@@ -0,0 +1,50 @@
+import React, { memo } from 'react';
+import { Pressable, Text, View } from 'react-native';
+import { useCalendarContext } from '../../calendar-context';
+import { getCalendarName } from '../../utils';
+
+const CalendarButton = () => {
+  const {
+    calendar = 'gregory',
+    calendars = [],
+    locale,
+    calendarView,
+    onChangeCalendar,
+    styles,
+    classNames,
+  } = useCalendarContext();
+
+  const calendarName = getCalendarName(calendar, locale);
+
+  return (
+    <Pressable
+      disabled={calendarView === 'time'}
+      onPress={() => {
+        // A calendar missing from the list (e.g. a new `calendar` prop)
+        // cycles back to the first one.
+        const next =
+          calendars[(calendars.indexOf(calendar) + 1) % calendars.length];
+        if (next && next !== calendar) {
+          onChangeCalendar(next);
+        }
+      }}
+      testID="btn-calendar"
+      accessibilityRole="button"
+      accessibilityLabel={calendarName}
+    >
+      <View
+        style={styles?.calendar_selector}
+        className={classNames?.calendar_selector}
+      >
+        <Text
+          style={styles?.calendar_selector_label}
+          className={classNames?.calendar_selector_label}
+        >
+          {calendarName}
+        </Text>
+      </View>
+    </Pressable>
+  );
+};
+
+export default memo(CalendarButton);
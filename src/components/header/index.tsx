@@ -4,6 +4,7 @@ import type { HeaderProps, NavigationProps } from './types';
 import PrevButton from './prev-button';
 import NextButton from './next-button';
 import Selectors from './selectors';
+import SecondaryMonthSpan from './secondary-month-span';
 import { isEqual } from 'lodash';
 
 const createDefaultStyles = (isRTL: boolean) =>
@@ -94,6 +95,7 @@ const Header = ({
           </>
         )}
       </View>
+      <SecondaryMonthSpan />
     </View>
   );
 };
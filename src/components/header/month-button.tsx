@@ -2,7 +2,17 @@ import React, { memo } from 'react';
 import dayjs from 'dayjs';
 import { Pressable, Text, View } from 'react-native';
 import { useCalendarContext } from '../../calendar-context';
-import { adjustDayjsHijriDate, isValidJalaliLocale } from '../../utils';
+import {
+  adjustDayjsHijriDate,
+  getDayjs,
+  getMonthsArray,
+  isCalendarSystem,
+  isValidJalaliLocale,
+} from '../../utils';
+import {
+  formatFiscalPeriod,
+  getFiscalPeriodOfMonth,
+} from '../../fiscal-calendar';
 
 const MonthButton = () => {
   const {
@@ -15,10 +25,12 @@ const MonthButton = () => {
     classNames,
     disableMonthPicker,
     monthCaptionFormat,
+    fiscalCalendar,
+    numerals = 'latn',
   } = useCalendarContext();
   let date =
     calendar === 'jalali'
-      ? dayjs(currentDate).calendar(calendar)
+      ? dayjs(currentDate).calendar('jalali')
       : dayjs(currentDate).toCalendarSystem('gregory');
   if (calendar === 'islamic') {
     date =
@@ -27,11 +39,28 @@ const MonthButton = () => {
         : adjustDayjsHijriDate(currentDate as dayjs.Dayjs);
   }
 
-  const currentMonthText = (date as dayjs.Dayjs)
-    ?.locale(
-      calendar === 'jalali' && !isValidJalaliLocale(locale) ? 'en' : locale
-    )
-    .format(monthCaptionFormat === 'full' ? 'MMMM' : 'MMM');
+  let currentMonthText = '';
+  if (isCalendarSystem(calendar)) {
+    // Calendar systems may have 13 months, so the caption comes from the
+    // same month list as the months grid rather than the dayjs locale.
+    date = getDayjs(currentDate, calendar);
+    const months = getMonthsArray({ calendar, locale, year: date.year() });
+    currentMonthText =
+      months[date.month()]?.name[
+        monthCaptionFormat === 'full' ? 'full' : 'short'
+      ] ?? '';
+  } else {
+    currentMonthText = (date as dayjs.Dayjs)
+      ?.locale(
+        calendar === 'jalali' && !isValidJalaliLocale(locale) ? 'en' : locale
+      )
+      .format(monthCaptionFormat === 'full' ? 'MMMM' : 'MMM');
+  }
+
+  if (calendar === 'gregory' && fiscalCalendar) {
+    const { period } = getFiscalPeriodOfMonth(currentDate, fiscalCalendar);
+    currentMonthText = `${currentMonthText} (${formatFiscalPeriod(period, numerals)})`;
+  }
 
   return (
     <Pressable
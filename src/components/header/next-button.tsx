@@ -8,7 +8,7 @@ import {
   View,
 } from 'react-native';
 import { useCalendarContext } from '../../calendar-context';
-import { YEAR_PAGE_SIZE } from '../../utils';
+import { YEAR_PAGE_SIZE, getDateYear } from '../../utils';
 import { ClassNames, Styles } from '../../types';
 import { UI } from '../../ui';
 import { isEqual } from 'lodash';
@@ -33,6 +33,10 @@ const NextButton = ({
     currentYear,
     onChangeMonth,
     onChangeYear,
+    onSelectYear,
+    mode,
+    calendar,
+    currentDate,
     calendarView,
     components = {},
     isRTL,
@@ -47,13 +51,25 @@ const NextButton = ({
       case 'day':
         return onChangeMonth(1);
       case 'month':
-        return onChangeYear(currentYear + 1);
+        // Month mode picks from the months grid, so move it to the next year
+        return mode === 'month'
+          ? onSelectYear(getDateYear(currentDate, calendar) + 1)
+          : onChangeYear(currentYear + 1);
       case 'year':
         return onChangeYear(currentYear + YEAR_PAGE_SIZE);
       default:
         return {};
     }
-  }, [calendarView, currentYear, onChangeMonth, onChangeYear]);
+  }, [
+    calendarView,
+    currentYear,
+    currentDate,
+    mode,
+    calendar,
+    onChangeMonth,
+    onChangeYear,
+    onSelectYear,
+  ]);
 
   const iconStyle: ImageStyle = useMemo(
     () => ({
@@ -0,0 +1,53 @@
+import React, { memo, useMemo } from 'react';
+import { StyleSheet, Text } from 'react-native';
+import { useCalendarContext } from '../../calendar-context';
+import { getSecondaryMonthSpan } from '../../utils';
+
+const SecondaryMonthSpan = () => {
+  const {
+    currentDate,
+    calendarView,
+    calendar = 'gregory',
+    secondaryCalendar,
+    locale,
+    numerals,
+    styles,
+    classNames,
+  } = useCalendarContext();
+
+  const spanText = useMemo(
+    () =>
+      secondaryCalendar
+        ? getSecondaryMonthSpan({
+            date: currentDate,
+            calendar,
+            secondaryCalendar,
+            locale,
+            numerals,
+          })
+        : '',
+    [currentDate, calendar, secondaryCalendar, locale, numerals]
+  );
+
+  if (!secondaryCalendar || calendarView !== 'day') {
+    return null;
+  }
+
+  return (
+    <Text
+      style={[defaultStyles.label, styles?.secondary_selector_label]}
+      className={classNames?.secondary_selector_label}
+      testID="secondary-month-span"
+    >
+      {spanText}
+    </Text>
+  );
+};
+
+export default memo(SecondaryMonthSpan);
+
+const defaultStyles = StyleSheet.create({
+  label: {
+    textAlign: 'center',
+  },
+});
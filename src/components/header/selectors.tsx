@@ -4,6 +4,7 @@ import { useCalendarContext } from '../../calendar-context';
 import MonthButton from './month-button';
 import YearButton from './year-button';
 import { TimeButton } from './time-button';
+import CalendarButton from './calendar-button';
 import { NavigationPosition } from '../../types';
 
 type Props = {
@@ -11,11 +12,13 @@ type Props = {
 };
 
 const Selectors = ({ position }: Props) => {
-  const { mode, calendarView, timePicker, timePickerOptions } =
+  const { mode, calendarView, calendars, timePicker, timePickerOptions } =
     useCalendarContext();
 
   const renderTimePicker = () =>
-    timePicker && mode === 'single' && calendarView !== 'year' ? (
+    timePicker &&
+    (mode === 'single' || mode === 'range') &&
+    calendarView !== 'year' ? (
       <TimeButton />
     ) : null;
 
@@ -33,8 +36,11 @@ const Selectors = ({ position }: Props) => {
           position === 'left' && defaultStyles.rowReverse,
         ]}
       >
-        {calendarView !== 'year' ? <MonthButton /> : null}
+        {calendarView !== 'year' && mode !== 'month' && mode !== 'year' ? (
+          <MonthButton />
+        ) : null}
         <YearButton />
+        {calendars && calendars.length > 1 ? <CalendarButton /> : null}
         {timePickerOptions?.renderBesideSelectors && renderTimePicker()}
       </View>
       {!timePickerOptions?.renderBesideSelectors && renderTimePicker()}
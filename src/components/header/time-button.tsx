@@ -3,12 +3,15 @@ import dayjs from 'dayjs';
 import { useMemo } from 'react';
 import { Pressable, Text, View } from 'react-native';
 import { useCalendarContext } from '../../calendar-context';
-import { formatNumber, getParsedDate } from '../../utils';
+import { formatTime } from '../../utils';
 
 export const TimeButton = () => {
   const {
+    mode,
     currentDate,
     date,
+    startDate,
+    endDate,
     calendarView,
     setCalendarView,
     styles,
@@ -18,32 +21,26 @@ export const TimeButton = () => {
     calendar,
   } = useCalendarContext();
 
-  const { hour, hour12, minute, period } = useMemo(
-    () => getParsedDate(date || currentDate, calendar),
-    [date, currentDate, calendar]
-  );
+  // Range mode shows the start and end times
+  const value = mode === 'range' ? startDate : date;
 
   const labelText = useMemo(() => {
-    const hourValue = use12Hours ? hour12 : hour;
-
-    const hourLabel =
-      hourValue < 10
-        ? `${formatNumber(0, numerals)}${formatNumber(hourValue, numerals)}`
-        : `${formatNumber(hourValue, numerals)}`;
-
-    const minuteLabel =
-      minute < 10
-        ? `${formatNumber(0, numerals)}${formatNumber(minute, numerals)}`
-        : `${formatNumber(minute, numerals)}`;
-
-    return `${hourLabel}:${minuteLabel} ${use12Hours ? period : ''}`.trim();
-  }, [numerals, hour, hour12, minute, use12Hours, period]);
+    const label = formatTime(
+      value || currentDate,
+      calendar,
+      numerals,
+      use12Hours
+    );
+    return mode === 'range' && endDate
+      ? `${label} – ${formatTime(endDate, calendar, numerals, use12Hours)}`
+      : label;
+  }, [mode, value, endDate, currentDate, calendar, numerals, use12Hours]);
 
   return (
     <Pressable
       onPress={() => setCalendarView(calendarView === 'time' ? 'day' : 'time')}
       accessibilityRole="button"
-      accessibilityLabel={dayjs(date || currentDate).format('HH:mm')}
+      accessibilityLabel={dayjs(value || currentDate).format('HH:mm')}
     >
       <View style={styles?.time_selector} className={classNames?.time_selector}>
         <Text
@@ -1,11 +1,25 @@
 import React, { memo } from 'react';
 import { Pressable, StyleSheet, Text, View } from 'react-native';
 import { useCalendarContext } from '../../calendar-context';
-import { formatNumber, adjustDayjsHijriDate, getYearRange } from '../../utils';
+import {
+  formatNumber,
+  adjustDayjsHijriDate,
+  getDayjs,
+  getYearRange,
+  getYearOffset,
+  getSexagenaryYear,
+  getJapaneseEraYearSpan,
+  isCalendarSystem,
+} from '../../utils';
+import {
+  formatFiscalYear,
+  getFiscalPeriodOfMonth,
+} from '../../fiscal-calendar';
 import dayjs from 'dayjs';
 
 const YearButton = () => {
   const {
+    mode,
     currentDate,
     calendarView,
     setCalendarView,
@@ -15,31 +29,67 @@ const YearButton = () => {
     classNames,
     disableYearPicker,
     calendar = 'gregory',
+    locale,
     numerals = 'latn',
+    yearFormat,
+    fiscalCalendar,
   } = useCalendarContext();
 
   const years = getYearRange(currentYear);
   let date =
     calendar === 'jalali'
-      ? dayjs(currentDate).calendar(calendar)
+      ? dayjs(currentDate).calendar('jalali')
       : dayjs(currentDate).toCalendarSystem('gregory');
   if (calendar === 'islamic') {
     date =
       (currentDate as any).$C === 'islamic'
         ? (currentDate as dayjs.Dayjs)
         : adjustDayjsHijriDate(currentDate as dayjs.Dayjs);
+  } else if (isCalendarSystem(calendar)) {
+    date = getDayjs(currentDate, calendar);
   }
 
+  const fiscal = calendar === 'gregory' ? fiscalCalendar : undefined;
+  const displayYear = fiscal
+    ? getFiscalPeriodOfMonth(currentDate, fiscal).year
+    : parseInt(date.format('YYYY')) + getYearOffset(calendar);
+
+  let yearLabel = formatNumber(displayYear, numerals);
+  if (calendar === 'chinese') {
+    const sexagenaryYear = getSexagenaryYear(displayYear, locale);
+    yearLabel = locale.startsWith('zh')
+      ? `${yearLabel} ${sexagenaryYear}`
+      : `${yearLabel} (${sexagenaryYear})`;
+  } else if (fiscal) {
+    yearLabel = formatFiscalYear(displayYear, numerals);
+  } else if (calendar === 'gregory' && yearFormat === 'era') {
+    // Span the visible month so mid-month era changes show both eras
+    yearLabel =
+      getJapaneseEraYearSpan(
+        date.startOf('month'),
+        date.endOf('month'),
+        locale,
+        numerals
+      ) ?? yearLabel;
+  }
+
+  const formatYear = fiscal ? formatFiscalYear : formatNumber;
+
   return (
     <Pressable
-      disabled={disableYearPicker}
+      disabled={disableYearPicker || mode === 'year'}
       onPress={() => {
-        setCalendarView(calendarView === 'year' ? 'day' : 'year');
-        onChangeYear(date.year());
+        // Month mode goes back to the months grid rather than the days
+        const returnView = mode === 'month' ? 'month' : 'day';
+        setCalendarView(calendarView === 'year' ? returnView : 'year');
+        // The years grid of a fiscal calendar lists fiscal years
+        onChangeYear(
+          fiscal ? displayYear : date.year() + getYearOffset(calendar)
+        );
       }}
       testID="btn-year"
       accessibilityRole="button"
-      accessibilityLabel={date.format('YYYY')}
+      accessibilityLabel={displayYear.toString()}
     >
       <View
         style={[defaultStyles.container, styles?.year_selector]}
@@ -50,8 +100,8 @@ const YearButton = () => {
           className={classNames?.year_selector_label}
         >
           {calendarView === 'year'
-            ? `${formatNumber(years[0] || 0, numerals)} - ${formatNumber(years[years.length - 1] || 0, numerals)}`
-            : formatNumber(parseInt(date.format('YYYY')), numerals)}
+            ? `${formatYear(years[0] || 0, numerals)} - ${formatYear(years[years.length - 1] || 0, numerals)}`
+            : yearLabel}
         </Text>
       </View>
     </Pressable>
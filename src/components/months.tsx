@@ -1,12 +1,32 @@
 import React, { useMemo } from 'react';
 import { View, StyleSheet, Pressable, Text } from 'react-native';
 import { useCalendarContext } from '../calendar-context';
-import { getParsedDate, getMonthsArray, cn, isMonthDisabled } from '../utils';
+import {
+  getParsedDate,
+  getMonthsArray,
+  getMonthStart,
+  getPeriodSelection,
+  cn,
+  isMonthDisabled,
+} from '../utils';
 import { CONTAINER_HEIGHT } from '../enums';
+import {
+  formatFiscalPeriod,
+  getFiscalPeriodOfMonth,
+  getFiscalPeriods,
+  isFiscalPeriodDisabled,
+} from '../fiscal-calendar';
+import type { CalendarMonth } from '../types';
 
 const Months = () => {
   const {
+    mode,
+    range,
+    date,
+    startDate,
+    endDate,
     currentDate,
+    onSelectDate,
     onSelectMonth,
     styles = {},
     classNames = {},
@@ -17,6 +37,8 @@ const Months = () => {
     maxDate,
     calendar = 'gregory',
     locale,
+    numerals = 'latn',
+    fiscalCalendar,
     isRTL,
   } = useCalendarContext();
 
@@ -25,42 +47,99 @@ const Months = () => {
     [containerHeight, isRTL]
   );
 
-  const { month } = getParsedDate(currentDate, calendar);
+  const { month, year } = getParsedDate(currentDate, calendar);
 
   const containerStyle = StyleSheet.flatten([style.container, styles?.months]);
 
+  const monthsArray = getMonthsArray({ calendar, locale, year });
+  let cells: { item: CalendarMonth; year?: number; isDisabled: boolean }[] =
+    monthsArray.map((item, index) => ({
+      item: { ...item, isSelected: index === month },
+      isDisabled: isMonthDisabled(
+        index,
+        currentDate,
+        {
+          minDate,
+          maxDate,
+        },
+        calendar
+      ),
+    }));
+
+  if (calendar === 'gregory' && fiscalCalendar) {
+    const active = getFiscalPeriodOfMonth(currentDate, fiscalCalendar);
+    // Each period opens the month holding its 15th day
+    cells = getFiscalPeriods(active.year, fiscalCalendar).map((period) => {
+      const periodMonth = period.startDate.add(14, 'day');
+      const { name } = monthsArray[periodMonth.month()]!;
+      const label = formatFiscalPeriod(period.period, numerals);
+      return {
+        item: {
+          index: periodMonth.month(),
+          name: {
+            full: `${name.full} (${label})`,
+            short: `${name.short} (${label})`,
+          },
+          isSelected: period.period === active.period,
+        },
+        year: periodMonth.year(),
+        isDisabled: isFiscalPeriodDisabled(period, { minDate, maxDate }),
+      };
+    });
+  }
+
   return (
     <View style={containerStyle} testID="month-selector">
       <View style={style.months}>
-        {getMonthsArray({ calendar, locale }).map((item, index) => {
-          const isSelected = index === month;
-
-          const isDisabled = isMonthDisabled(index, currentDate, {
-            minDate,
-            maxDate,
-          });
+        {cells.map(({ item: cell, year: monthYear, isDisabled }, index) => {
+          const cellYear = monthYear ?? year;
+          // Month mode selects the month instead of opening its days
+          const item =
+            mode === 'month'
+              ? {
+                  ...cell,
+                  ...getPeriodSelection(
+                    cellYear * 100 + cell.index,
+                    'month',
+                    { range, date, startDate, endDate },
+                    calendar
+                  ),
+                }
+              : cell;
+          const { isSelected, inRange } = item;
+          const onPress =
+            mode === 'month'
+              ? () =>
+                  onSelectDate(
+                    getMonthStart(currentDate, cellYear, item.index, calendar)
+                  )
+              : () => onSelectMonth(item.index, monthYear);
 
           const itemStyle = StyleSheet.flatten([
             style.month,
             styles.month,
+            inRange && styles.range_month,
             isSelected && styles.selected_month,
             isDisabled && styles.disabled,
           ]);
 
           const textStyle = StyleSheet.flatten([
             styles.month_label,
+            inRange && styles.range_month_label,
             isSelected && styles.selected_month_label,
             isDisabled && styles.disabled_label,
           ]);
 
           const containerClassName = cn(
             classNames.month,
+            inRange && classNames.range_month,
             isSelected && classNames.selected_month,
             isDisabled && classNames.disabled
           );
 
           const textClassName = cn(
             classNames.month_label,
+            inRange && classNames.range_month_label,
             isSelected && classNames.selected_month_label,
             isDisabled && classNames.disabled_label
           );
@@ -70,17 +149,17 @@ const Months = () => {
               {components.Month ? (
                 <Pressable
                   disabled={isDisabled}
-                  onPress={() => onSelectMonth(index)}
+                  onPress={onPress}
                   accessibilityRole="button"
                   accessibilityLabel={item.name.full}
                   style={style.month}
                 >
-                  {components.Month({ ...item, isSelected })}
+                  {components.Month(item)}
                 </Pressable>
               ) : (
                 <Pressable
                   disabled={isDisabled}
-                  onPress={() => onSelectMonth(index)}
+                  onPress={onPress}
                   accessibilityRole="button"
                   accessibilityLabel={item.name.full}
                   style={itemStyle}
@@ -0,0 +1,136 @@
+import React, { memo } from 'react';
+import { Pressable, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { useCalendarContext } from '../calendar-context';
+import { getPresetRange, isPresetActive } from '../presets';
+import { cn } from '../utils';
+
+type Props = {
+  /** A vertical list beside the calendar, or a row of chips above it */
+  layout: 'list' | 'chips';
+};
+
+const Presets = ({ layout }: Props) => {
+  const {
+    presets = [],
+    startDate,
+    endDate,
+    calendar = 'gregory',
+    timeZone,
+    firstDayOfWeek,
+    minDate,
+    maxDate,
+    onSelectPreset,
+    styles,
+    classNames,
+    isRTL,
+  } = useCalendarContext();
+
+  // Not memoized, as the ranges move on with today's date
+  const getRange = (index: number) =>
+    getPresetRange(presets[index]!, {
+      calendar,
+      timeZone,
+      firstDayOfWeek,
+      minDate,
+      maxDate,
+    });
+
+  const items = presets.map((preset, index) => ({
+    label: preset.label,
+    ...getRange(index),
+  }));
+
+  const matchIndex = items.findIndex(
+    (item) =>
+      item.range &&
+      !item.isDisabled &&
+      isPresetActive(item.range, { startDate, endDate }, calendar)
+  );
+  // A selection matching no preset activates the custom one
+  const activeIndex =
+    matchIndex === -1 && startDate
+      ? items.findIndex((item) => !item.range)
+      : matchIndex;
+
+  const buttons = items.map((item, index) => {
+    const isActive = index === activeIndex;
+    return (
+      <Pressable
+        key={index}
+        disabled={item.isDisabled}
+        onPress={() => onSelectPreset(getRange(index).range)}
+        testID={`preset-${index}`}
+        accessibilityRole="button"
+        accessibilityLabel={item.label}
+        accessibilityState={{ selected: isActive, disabled: item.isDisabled }}
+      >
+        <View
+          style={[
+            styles?.preset,
+            isActive && styles?.active_preset,
+            item.isDisabled && styles?.disabled,
+          ]}
+          className={cn(
+            classNames?.preset,
+            isActive && classNames?.active_preset,
+            item.isDisabled && classNames?.disabled
+          )}
+        >
+          <Text
+            style={[
+              styles?.preset_label,
+              isActive && styles?.active_preset_label,
+              item.isDisabled && styles?.disabled_label,
+            ]}
+            className={cn(
+              classNames?.preset_label,
+              isActive && classNames?.active_preset_label,
+              item.isDisabled && classNames?.disabled_label
+            )}
+          >
+            {item.label}
+          </Text>
+        </View>
+      </Pressable>
+    );
+  });
+
+  return layout === 'list' ? (
+    <View
+      style={[defaultStyles.list, styles?.presets]}
+      className={classNames?.presets}
+      testID="presets"
+    >
+      {buttons}
+    </View>
+  ) : (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={[
+        defaultStyles.chips,
+        isRTL && defaultStyles.rowReverse,
+        styles?.presets,
+      ]}
+      className={classNames?.presets}
+      testID="presets"
+    >
+      {buttons}
+    </ScrollView>
+  );
+};
+
+export default memo(Presets);
+
+const defaultStyles = StyleSheet.create({
+  list: {
+    paddingHorizontal: 5,
+  },
+  chips: {
+    flexDirection: 'row',
+    paddingBottom: 5,
+  },
+  rowReverse: {
+    flexDirection: 'row-reverse',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
   View,
   StyleSheet,
@@ -7,16 +7,26 @@ import {
   ScrollView,
   Text,
   I18nManager,
+  Pressable,
 } from 'react-native';
 import { useCalendarContext } from '../calendar-context';
 import Wheel from './time-picker/wheel';
 import { CONTAINER_HEIGHT } from '../enums';
-import { getParsedDate, formatNumber, addTime, getDayjs } from '../utils';
-import { Numerals, PickerOption } from '../types';
+import {
+  getParsedDate,
+  formatNumber,
+  formatTime,
+  addTime,
+  getDayjs,
+  cn,
+} from '../utils';
+import { DateType, Numerals, PickerOption } from '../types';
 import PeriodPicker from './time-picker/period-picker';
 
 export type Period = 'AM' | 'PM';
 
+export type TimeEdge = 'start' | 'end';
+
 const createNumberList = (
   num: number,
   numerals: Numerals,
@@ -33,9 +43,13 @@ const createNumberList = (
 
 const TimePicker = () => {
   const {
+    mode,
     currentDate,
-    date,
+    date: selectedDate,
+    startDate,
+    endDate,
     onSelectDate,
+    onSelectTime,
     styles,
     classNames,
     numerals = 'latn',
@@ -44,6 +58,22 @@ const TimePicker = () => {
     timeZone,
   } = useCalendarContext();
 
+  // Range mode edits the time of the start or the end of the range
+  const [edge, setEdge] = useState<TimeEdge>('start');
+  const isRange = mode === 'range';
+  const activeEdge: TimeEdge = edge === 'end' && endDate ? 'end' : 'start';
+  const date = isRange
+    ? activeEdge === 'end'
+      ? endDate
+      : startDate
+    : selectedDate;
+
+  const selectTime = useCallback(
+    (newDate: DateType) =>
+      isRange ? onSelectTime(newDate, activeEdge) : onSelectDate(newDate),
+    [isRange, activeEdge, onSelectDate, onSelectTime]
+  );
+
   const hours = useMemo(
     () => createNumberList(use12Hours ? 12 : 24, numerals, use12Hours ? 1 : 0),
     [numerals, use12Hours]
@@ -74,9 +104,9 @@ const TimePicker = () => {
         hour24,
         minute
       );
-      onSelectDate(newDate);
+      selectTime(newDate);
     },
-    [use12Hours, date, calendar, minute, onSelectDate, period, timeZone]
+    [use12Hours, date, calendar, minute, selectTime, period, timeZone]
   );
 
   const handleChangeMinute = useCallback(
@@ -87,9 +117,9 @@ const TimePicker = () => {
         undefined,
         value
       );
-      onSelectDate(newDate);
+      selectTime(newDate);
     },
-    [calendar, date, onSelectDate, timeZone]
+    [calendar, date, selectTime, timeZone]
   );
 
   const handlePeriodChange = useCallback(
@@ -108,9 +138,9 @@ const TimePicker = () => {
         calendar,
         newHour
       );
-      onSelectDate(newDate);
+      selectTime(newDate);
     },
-    [hour12, hour, date, currentDate, calendar, onSelectDate, timeZone]
+    [hour12, hour, date, currentDate, calendar, selectTime, timeZone]
   );
 
   const timePickerContainerStyle: ViewStyle = useMemo(
@@ -126,7 +156,43 @@ const TimePicker = () => {
     [styles?.time_label]
   );
 
-  return (
+  const renderEdge = (value: TimeEdge, edgeDate: DateType) => {
+    const isActive = activeEdge === value;
+    return (
+      <Pressable
+        disabled={!edgeDate}
+        onPress={() => setEdge(value)}
+        testID={`time-${value}`}
+        accessibilityRole="button"
+        accessibilityState={{ selected: isActive, disabled: !edgeDate }}
+      >
+        <View
+          style={[styles?.time_toggle, isActive && styles?.time_toggle_active]}
+          className={cn(
+            classNames?.time_toggle,
+            isActive && classNames?.time_toggle_active
+          )}
+        >
+          <Text
+            style={[
+              styles?.time_toggle_label,
+              isActive && styles?.time_toggle_active_label,
+            ]}
+            className={cn(
+              classNames?.time_toggle_label,
+              isActive && classNames?.time_toggle_active_label
+            )}
+          >
+            {edgeDate
+              ? formatTime(edgeDate, calendar, numerals, use12Hours, timeZone)
+              : '--:--'}
+          </Text>
+        </View>
+      </Pressable>
+    );
+  };
+
+  const picker = (
     <ScrollView
       horizontal={true}
       scrollEnabled={false}
@@ -168,6 +234,18 @@ const TimePicker = () => {
       ) : null}
     </ScrollView>
   );
+
+  return isRange ? (
+    <View style={defaultStyles.container}>
+      <View style={defaultStyles.edgeContainer}>
+        {renderEdge('start', startDate)}
+        {renderEdge('end', endDate)}
+      </View>
+      {picker}
+    </View>
+  ) : (
+    picker
+  );
 };
 
 const defaultStyles = StyleSheet.create({
@@ -191,6 +269,11 @@ const defaultStyles = StyleSheet.create({
   periodContainer: {
     marginLeft: 10,
   },
+  edgeContainer: {
+    gap: 5,
+    flexDirection: I18nManager.isRTL ? 'row-reverse' : 'row',
+    justifyContent: 'center',
+  },
 });
 
 export default TimePicker;
@@ -0,0 +1,63 @@
+import React, { memo, useMemo } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import {
+  CalendarComponents,
+  CalendarWeekNumber,
+  ClassNames,
+  Styles,
+} from '../types';
+import { CONTAINER_HEIGHT, WEEK_NUMBER_WIDTH, WEEKDAYS_HEIGHT } from '../enums';
+
+interface Props {
+  week: CalendarWeekNumber;
+  containerHeight?: number;
+  weekdaysHeight?: number;
+  styles?: Styles;
+  classNames?: ClassNames;
+  components?: CalendarComponents;
+}
+
+const WeekNumber = ({
+  week,
+  containerHeight = CONTAINER_HEIGHT,
+  weekdaysHeight = WEEKDAYS_HEIGHT,
+  styles = {},
+  classNames = {},
+  components = {},
+}: Props) => {
+  const style = useMemo(
+    () => createDefaultStyles(containerHeight, weekdaysHeight),
+    [containerHeight, weekdaysHeight]
+  );
+
+  return (
+    <View
+      style={[style.weekNumber, styles.week_number]}
+      className={classNames.week_number}
+      testID="week-number"
+    >
+      {components.WeekNumber ? (
+        components.WeekNumber(week)
+      ) : (
+        <Text
+          style={styles.week_number_label}
+          className={classNames.week_number_label}
+        >
+          {week.text}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+export default memo(WeekNumber);
+
+const createDefaultStyles = (containerHeight: number, weekdaysHeight: number) =>
+  StyleSheet.create({
+    weekNumber: {
+      width: WEEK_NUMBER_WIDTH,
+      minHeight: (containerHeight - weekdaysHeight) / 6,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+  });
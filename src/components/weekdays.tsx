@@ -7,7 +7,7 @@ import {
   WeekdayFormat,
   CalendarComponents,
 } from '../types';
-import { WEEKDAYS_HEIGHT } from '../enums';
+import { WEEK_NUMBER_WIDTH, WEEKDAYS_HEIGHT } from '../enums';
 
 type WeekdaysProps = {
   locale: string;
@@ -18,6 +18,7 @@ type WeekdaysProps = {
   weekdaysHeight?: number;
   components?: CalendarComponents;
   isRTL: boolean;
+  showWeekNumbers?: boolean;
 };
 
 const Weekdays = ({
@@ -29,36 +30,48 @@ const Weekdays = ({
   weekdaysHeight = WEEKDAYS_HEIGHT,
   components = {},
   isRTL,
+  showWeekNumbers = false,
 }: WeekdaysProps) => {
   const style = useMemo(
     () => createDefaultStyles(weekdaysHeight, isRTL),
     [weekdaysHeight, isRTL]
   );
 
+  const weekdays = getWeekdays(locale, firstDayOfWeek)?.map(
+    (weekday, index) => (
+      <View
+        key={index}
+        style={[style.weekday, styles.weekday]}
+        className={classNames.weekday}
+      >
+        {components.Weekday ? (
+          components.Weekday(weekday)
+        ) : (
+          <Text
+            style={styles?.weekday_label}
+            className={classNames.weekday_label}
+          >
+            {weekday.name[weekdaysFormat]}
+          </Text>
+        )}
+      </View>
+    )
+  );
+
   return (
     <View
       style={[style.container, styles.weekdays]}
       className={classNames.weekdays}
       testID="weekdays"
     >
-      {getWeekdays(locale, firstDayOfWeek)?.map((weekday, index) => (
-        <View
-          key={index}
-          style={[style.weekday, styles.weekday]}
-          className={classNames.weekday}
-        >
-          {components.Weekday ? (
-            components.Weekday(weekday)
-          ) : (
-            <Text
-              style={styles?.weekday_label}
-              className={classNames.weekday_label}
-            >
-              {weekday.name[weekdaysFormat]}
-            </Text>
-          )}
-        </View>
-      ))}
+      {showWeekNumbers ? (
+        <>
+          <View style={style.weekNumber} testID="week-number-header" />
+          <View style={style.weekdays}>{weekdays}</View>
+        </>
+      ) : (
+        weekdays
+      )}
     </View>
   );
 };
@@ -72,6 +85,13 @@ const createDefaultStyles = (weekdaysHeight: number, isRTL: boolean) =>
       flexDirection: isRTL ? 'row-reverse' : 'row',
       alignItems: 'center',
     },
+    weekNumber: {
+      width: WEEK_NUMBER_WIDTH,
+    },
+    weekdays: {
+      flex: 1,
+      flexDirection: isRTL ? 'row-reverse' : 'row',
+    },
     weekday: {
       width: `${99.9 / 7}%`,
       alignItems: 'center',
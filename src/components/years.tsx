@@ -5,20 +5,38 @@ import {
   cn,
   formatNumber,
   getDateYear,
+  getJapaneseEraYearSpan,
+  getMonthStart,
+  getPeriodSelection,
+  getYearOffset,
   getYearRange,
   isYearDisabled,
 } from '../utils';
 import { CONTAINER_HEIGHT } from '../enums';
+import {
+  formatFiscalYear,
+  getFiscalPeriod,
+  getFiscalPeriodOfMonth,
+  getFiscalPeriods,
+} from '../fiscal-calendar';
 
 const Years = () => {
   const {
     mode,
     calendar = 'gregory',
     numerals = 'latn',
+    locale,
+    yearFormat,
+    fiscalCalendar,
     currentDate,
     currentYear,
     date,
+    range,
+    startDate,
+    endDate,
+    onSelectDate,
     onSelectYear,
+    onSelectMonth,
     styles = {},
     classNames = {},
     components = {},
@@ -33,21 +51,81 @@ const Years = () => {
     [containerHeight, isRTL]
   );
 
-  const selectedYear = getDateYear(date, calendar);
+  const fiscal = calendar === 'gregory' ? fiscalCalendar : undefined;
+
+  const selectedYear =
+    fiscal && date
+      ? getFiscalPeriod(date, fiscal).year
+      : getDateYear(date, calendar);
 
   const generateCells = useCallback(() => {
     const years = getYearRange(currentYear);
-    const activeYear = getDateYear(currentDate, calendar);
+    const activePeriod = fiscal && getFiscalPeriodOfMonth(currentDate, fiscal);
+    const activeYear = activePeriod
+      ? activePeriod.year
+      : getDateYear(currentDate, calendar);
     const column = years.map((year) => {
-      const isSelected = year === selectedYear;
+      // Year mode selects the year instead of opening its months
+      const selection =
+        mode === 'year'
+          ? getPeriodSelection(
+              year - getYearOffset(calendar),
+              'year',
+              { range, date, startDate, endDate },
+              calendar
+            )
+          : {
+              isSelected: year === selectedYear,
+              inRange: false,
+              rangeStart: false,
+              rangeEnd: false,
+            };
+      const { isSelected, inRange } = selection;
       const isActivated = year === activeYear;
 
-      const isDisabled = isYearDisabled(year, { minDate, maxDate }, calendar);
+      let isDisabled = isYearDisabled(year, { minDate, maxDate }, calendar);
+      // Fiscal years open the same period, in the month holding its 15th day
+      let onPress = () => onSelectYear(year);
+      if (fiscal && activePeriod) {
+        const periods = getFiscalPeriods(year, fiscal);
+        isDisabled =
+          (!!minDate && periods[11]!.endDate.isBefore(minDate, 'day')) ||
+          (!!maxDate && periods[0]!.startDate.isAfter(maxDate, 'day'));
+        const periodMonth = periods[activePeriod.period - 1]!.startDate.add(
+          14,
+          'day'
+        );
+        onPress = () => onSelectMonth(periodMonth.month(), periodMonth.year());
+      }
+      if (mode === 'year') {
+        onPress = () =>
+          onSelectDate(
+            getMonthStart(
+              currentDate,
+              year - getYearOffset(calendar),
+              0,
+              calendar
+            )
+          );
+      }
+
+      const text =
+        (fiscal && formatFiscalYear(year, numerals)) ||
+        (calendar === 'gregory' &&
+          yearFormat === 'era' &&
+          getJapaneseEraYearSpan(
+            new Date(year, 0, 1),
+            new Date(year, 11, 31),
+            locale,
+            numerals
+          )) ||
+        formatNumber(year, numerals);
 
       const containerStyle = StyleSheet.flatten([
         style.year,
         styles.year,
         isActivated && styles.active_year,
+        inRange && styles.range_year,
         isSelected && styles.selected_year,
         isDisabled && styles.disabled,
       ]);
@@ -55,6 +133,7 @@ const Years = () => {
       const textStyle = StyleSheet.flatten([
         styles.year_label,
         isActivated && styles.active_year_label,
+        inRange && styles.range_year_label,
         isSelected && styles.selected_year_label,
         isDisabled && styles.disabled_label,
       ]);
@@ -62,6 +141,7 @@ const Years = () => {
       const containerClassName = cn(
         classNames.year,
         isActivated && classNames.active_year,
+        inRange && classNames.range_year,
         isSelected && classNames.selected_year,
         isDisabled && classNames.disabled
       );
@@ -69,6 +149,7 @@ const Years = () => {
       const textClassName = cn(
         classNames.year_label,
         isActivated && classNames.active_year_label,
+        inRange && classNames.range_year_label,
         isSelected && classNames.selected_year_label,
         isDisabled && classNames.disabled_label
       );
@@ -78,29 +159,29 @@ const Years = () => {
           {components.Year ? (
             <Pressable
               disabled={isDisabled}
-              onPress={() => onSelectYear(year)}
+              onPress={onPress}
               accessibilityRole="button"
               accessibilityLabel={year.toString()}
               style={style.year}
             >
               {components.Year({
                 number: year,
-                text: formatNumber(year, numerals),
-                isSelected,
+                text,
+                ...selection,
                 isActivated,
               })}
             </Pressable>
           ) : (
             <Pressable
               disabled={isDisabled}
-              onPress={() => onSelectYear(year)}
+              onPress={onPress}
               accessibilityRole="button"
               accessibilityLabel={year.toString()}
               style={containerStyle}
               className={containerClassName}
             >
               <Text key={year} style={textStyle} className={textClassName}>
-                {formatNumber(year, numerals)}
+                {text}
               </Text>
             </Pressable>
           )}
@@ -109,17 +190,26 @@ const Years = () => {
     });
     return column;
   }, [
+    onSelectDate,
     onSelectYear,
+    onSelectMonth,
+    fiscal,
     selectedYear,
     currentYear,
     currentDate,
     styles,
     mode,
+    range,
+    date,
+    startDate,
+    endDate,
     classNames,
     components?.Year,
     minDate,
     maxDate,
     numerals,
+    locale,
+    yearFormat,
     style.year,
     style.yearCell,
     calendar,
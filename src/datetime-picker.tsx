@@ -1,18 +1,39 @@
 import React, {
   useCallback,
   useEffect,
+  useLayoutEffect,
   useMemo,
   useReducer,
   useRef,
+  useState,
 } from 'react';
 import { I18nManager } from 'react-native';
 import {
   dateToUnix,
   getEndOfDay,
+  getRangeLength,
+  getDisabledDateInRange,
+  getDisabledReason,
+  getFixedRangeEnd,
+  isDateDisabled,
   getStartOfDay,
   areDatesOnSameDay,
   removeTime,
+  getWeekOfYear,
+  getWeekRange,
+  getPeriodRange,
+  mergeDateRanges,
+  getParsedDate,
+  addTime,
   getDayjs,
+  getYearOffset,
+  getCalendarSystemDate,
+  getDaysInCalendarMonth,
+  getMonthsInYear,
+  getSupportedYearRange,
+  getYearRange,
+  isCalendarSystem,
+  isYearSupported,
 } from './utils';
 import { CalendarContext } from './calendar-context';
 import {
@@ -22,6 +43,7 @@ import {
   WEEKDAYS_HEIGHT,
 } from './enums';
 import type {
+  CalendarType,
   DateType,
   CalendarAction,
   LocalState,
@@ -29,6 +51,10 @@ import type {
   SingleChange,
   RangeChange,
   MultiChange,
+  WeekChange,
+  MultiRangeChange,
+  DateRange,
+  HijriAdjustment,
 } from './types';
 import Calendar from './components/calendar';
 import { useDeepCompareMemo } from './utils';
@@ -43,6 +69,13 @@ import { usePrevious } from './hooks/use-previous';
 import jalaliday from 'jalali-plugin-dayjs';
 import calendarSystems from '@calidy/dayjs-calendarsystems';
 import UmalquraCalendarSystem from './calendar-systems/umalqura-calendar-system';
+import IslamicCivilCalendarSystem from './calendar-systems/islamic-civil-calendar-system';
+import IslamicTblaCalendarSystem from './calendar-systems/islamic-tbla-calendar-system';
+import HebrewCalendarSystem from './calendar-systems/hebrew-calendar-system';
+import ChineseCalendarSystem from './calendar-systems/chinese-calendar-system';
+import EthiopicCalendarSystem from './calendar-systems/ethiopic-calendar-system';
+import CopticCalendarSystem from './calendar-systems/coptic-calendar-system';
+import { registerCalendarSystem } from './calendar-systems';
 import toObject from 'dayjs/plugin/toObject';
 
 dayjs.extend(localeData);
@@ -59,7 +92,14 @@ dayjs.extend(calendarSystems);
  * of the default tabular HijriCalendarSystem shipped with dayjs-calendarsystems,
  * so every dayjs Hijri operation stays consistent with the astronomical
  * Umm al-Qura calendar used throughout the rest of this library. */
-dayjs.registerCalendarSystem('islamic', new UmalquraCalendarSystem());
+const umalquraCalendarSystem = new UmalquraCalendarSystem();
+registerCalendarSystem('islamic', umalquraCalendarSystem);
+registerCalendarSystem('islamic-civil', new IslamicCivilCalendarSystem());
+registerCalendarSystem('islamic-tbla', new IslamicTblaCalendarSystem());
+registerCalendarSystem('hebrew', new HebrewCalendarSystem());
+registerCalendarSystem('chinese', new ChineseCalendarSystem());
+registerCalendarSystem('ethiopic', new EthiopicCalendarSystem());
+registerCalendarSystem('coptic', new CopticCalendarSystem());
 
 export interface DatePickerSingleProps extends DatePickerBaseProps {
   mode: 'single';
@@ -74,22 +114,63 @@ export interface DatePickerRangeProps extends DatePickerBaseProps {
   onChange?: RangeChange;
 }
 
+export interface DatePickerWeekProps extends DatePickerBaseProps {
+  mode: 'week';
+  startDate?: DateType;
+  endDate?: DateType;
+  onChange?: WeekChange;
+}
+
+export interface DatePickerPeriodProps extends DatePickerBaseProps {
+  mode: 'month' | 'year';
+  range?: false;
+  date?: DateType;
+  onChange?: SingleChange;
+}
+
+export interface DatePickerPeriodRangeProps extends DatePickerBaseProps {
+  mode: 'month' | 'year';
+  range: true;
+  startDate?: DateType;
+  endDate?: DateType;
+  onChange?: RangeChange;
+}
+
 export interface DatePickerMultipleProps extends DatePickerBaseProps {
   mode: 'multiple';
   dates?: DateType[];
   onChange?: MultiChange;
 }
 
+export interface DatePickerMultiRangeProps extends DatePickerBaseProps {
+  mode: 'multi-range';
+  ranges?: DateRange[];
+  onChange?: MultiRangeChange;
+}
+
 const DateTimePicker = (
-  props: DatePickerSingleProps | DatePickerRangeProps | DatePickerMultipleProps
+  props:
+    | DatePickerSingleProps
+    | DatePickerRangeProps
+    | DatePickerMultipleProps
+    | DatePickerMultiRangeProps
+    | DatePickerWeekProps
+    | DatePickerPeriodProps
+    | DatePickerPeriodRangeProps
 ) => {
   const {
     mode = 'single',
-    calendar = 'gregory',
+    range = false,
+    calendar: calendarProp = 'gregory',
+    calendars,
+    onCalendarChange,
+    hijriAdjustment = 0,
+    secondaryCalendar,
     locale = 'en',
     numerals = 'latn',
     timeZone,
     showOutsideDays = false,
+    showWeekNumbers = false,
     timePicker = false,
     timePickerOptions = {
       renderBesideSelectors: false,
@@ -105,6 +186,9 @@ const DateTimePicker = (
     startDate,
     endDate,
     dates,
+    ranges,
+    presets,
+    dragToSelect = false,
     min,
     max,
     onChange,
@@ -119,6 +203,8 @@ const DateTimePicker = (
     weekdaysFormat = 'min',
     monthsFormat = 'full',
     monthCaptionFormat = 'full',
+    yearFormat = 'numeric',
+    fiscalCalendar,
     multiRangeMode,
     hideHeader,
     hideWeekdays,
@@ -128,27 +214,104 @@ const DateTimePicker = (
     events = [],
     eventViewMode = false,
     displayEventTooltip = false,
+    displayRangePreviewTooltip = false,
+    rangeSemantics,
+    disallowDisabledInRange = false,
+    fixedRangeLength,
+    onInvalidRange,
+    onSelectionRejected,
     onEventDayPress,
     month,
     year,
     onMonthChange = () => {},
     onYearChange = () => {},
+    onWarning,
     use12Hours,
   } = props;
 
+  // The header calendar switcher changes the calendar without the parent
+  // having to pass it back, while a new `calendar` prop still wins.
+  const [calendar, setCalendar] = useState<CalendarType>(calendarProp);
+  useEffect(() => {
+    setCalendar(calendarProp);
+  }, [calendarProp]);
+
   dayjs.tz.setDefault(timeZone);
-  if (calendar !== 'islamic') {
-    dayjs.calendar(calendar);
-  }
+  // jalaliday only knows 'jalali' and 'gregory'; any other value makes every
+  // new dayjs recurse through calidy's `init`, so calendar-system backed
+  // calendars are converted explicitly through `getDayjs` instead.
+  dayjs.calendar(calendar === 'jalali' ? 'jalali' : 'gregory');
+  const onWarningRef = useRef(onWarning);
+  onWarningRef.current = onWarning;
+
+  // The Hijri adjustment is global to dayjs too: every Islamic conversion
+  // goes through the one registered Umm al-Qura system. It is claimed after
+  // render, only by pickers showing Hijri dates, and the calendar waits for
+  // it to be active before rendering them. A picker whose adjustment differs
+  // from the one other pickers hold waits for them to release it.
+  const memoizedHijriAdjustment = useDeepCompareMemo(hijriAdjustment, [
+    hijriAdjustment,
+  ]);
+  const isHijri = calendar === 'islamic' || secondaryCalendar === 'islamic';
+  const [activeHijriAdjustment, setActiveHijriAdjustment] = useState<
+    HijriAdjustment | undefined
+  >(() => umalquraCalendarSystem.getActiveAdjustment());
+  const hijriAdjustmentOwner = useRef({}).current;
+
+  useLayoutEffect(() => {
+    if (!isHijri) {
+      return undefined;
+    }
+
+    let isRefused = false;
+    const claim = () => {
+      const isClaimed = umalquraCalendarSystem.claimAdjustment(
+        hijriAdjustmentOwner,
+        memoizedHijriAdjustment
+      );
+      setActiveHijriAdjustment(isClaimed ? memoizedHijriAdjustment : undefined);
+      if (!isClaimed && !isRefused) {
+        onWarningRef.current?.({
+          type: 'hijri-adjustment-conflict',
+          calendar: 'islamic',
+          hijriAdjustment: memoizedHijriAdjustment,
+          activeHijriAdjustment: umalquraCalendarSystem.getActiveAdjustment(),
+        });
+      }
+      isRefused = !isClaimed;
+    };
+
+    claim();
+    const unsubscribe = umalquraCalendarSystem.subscribe(claim);
+    return () => {
+      unsubscribe();
+      umalquraCalendarSystem.releaseAdjustment(hijriAdjustmentOwner);
+    };
+  }, [isHijri, memoizedHijriAdjustment, hijriAdjustmentOwner]);
+
+  const isHijriAdjustmentActive =
+    !isHijri || activeHijriAdjustment === memoizedHijriAdjustment;
+
+  const memoizedFixedRangeLength = useDeepCompareMemo(fixedRangeLength, [
+    fixedRangeLength,
+  ]);
 
   dayjs.locale(locale);
 
   const prevTimezone = usePrevious(timeZone);
 
-  const initialCalendarView: CalendarViews = useMemo(
-    () => (mode !== 'single' && initialView === 'time' ? 'day' : initialView),
-    [mode, initialView]
-  );
+  const initialCalendarView: CalendarViews = useMemo(() => {
+    if (mode === 'month' || mode === 'year') {
+      return mode;
+    }
+    return mode !== 'single' && mode !== 'range' && initialView === 'time'
+      ? 'day'
+      : initialView;
+  }, [mode, initialView]);
+
+  // Month and year modes select from their grid like single or range mode
+  const selectionMode =
+    mode === 'month' || mode === 'year' ? (range ? 'range' : 'single') : mode;
 
   const firstDay = useMemo(
     () =>
@@ -158,21 +321,21 @@ const DateTimePicker = (
     [firstDayOfWeek]
   );
 
-  const initialState: LocalState = useMemo(() => {
+  const getInitialState = useCallback((): LocalState => {
     // Every dayjs we store in state or hand back to the consumer is
     // anchored to `timeZone` so reads/writes against it happen in that
     // timezone's wall-clock and `.toISOString()` stays on the same day.
     let initialDate = dayjs().tz(timeZone);
 
-    if (calendar === 'islamic') {
+    if (calendar === 'islamic' || isCalendarSystem(calendar)) {
       initialDate = getDayjs(initialDate, calendar);
     }
 
-    if (mode === 'single' && date) {
+    if (selectionMode === 'single' && date) {
       initialDate = getDayjs(date, calendar, timeZone);
     }
 
-    if (mode === 'range' && startDate) {
+    if ((selectionMode === 'range' || mode === 'week') && startDate) {
       initialDate = getDayjs(startDate, calendar, timeZone);
     }
 
@@ -180,16 +343,29 @@ const DateTimePicker = (
       initialDate = getDayjs(dates[0], calendar, timeZone);
     }
 
+    if (mode === 'multi-range' && ranges && ranges.length > 0) {
+      initialDate = getDayjs(ranges[0]!.startDate, calendar, timeZone);
+    }
+
     if (minDate && initialDate.isBefore(minDate)) {
       initialDate = getDayjs(minDate, calendar, timeZone);
     }
 
-    if (month !== undefined && month && month >= 0 && month <= 11) {
+    if (
+      month !== undefined &&
+      month &&
+      month >= 0 &&
+      month < getMonthsInYear(initialDate.year(), calendar)
+    ) {
       initialDate = initialDate.month(month);
     }
 
-    if (year !== undefined && year >= 0) {
-      initialDate = initialDate.year(year);
+    if (
+      year !== undefined &&
+      year >= 0 &&
+      isYearSupported(year - getYearOffset(calendar), calendar)
+    ) {
+      initialDate = initialDate.year(year - getYearOffset(calendar));
     }
 
     let _date = (date ? getDayjs(date, calendar, timeZone) : date) as DateType;
@@ -247,18 +423,22 @@ const DateTimePicker = (
       startDate: start,
       endDate: end,
       dates,
+      ranges,
       calendarView: initialCalendarView,
       currentDate: initialDate,
-      currentYear: dayjs(initialDate).toObject().years,
+      currentYear:
+        dayjs(initialDate).toObject().years + getYearOffset(calendar),
       isRTL: calendar === 'jalali' || I18nManager.isRTL,
     };
   }, [
     mode,
+    selectionMode,
     calendar,
     date,
     startDate,
     endDate,
     dates,
+    ranges,
     minDate,
     maxDate,
     month,
@@ -305,6 +485,12 @@ const DateTimePicker = (
             ...prevState,
             dates: selectedDates,
           };
+        case CalendarActionKind.CHANGE_SELECTED_RANGES:
+          const { ranges: selectedRanges } = action.payload;
+          return {
+            ...prevState,
+            ranges: selectedRanges,
+          };
         case CalendarActionKind.SET_IS_RTL:
           return {
             ...prevState,
@@ -316,20 +502,43 @@ const DateTimePicker = (
           return prevState;
       }
     },
-    initialState
+    undefined,
+    getInitialState
   );
 
   const stateRef = useRef(state);
   stateRef.current = state;
 
-  useEffect(() => {
+  // Calendars backed by conversion tables can't build months past their
+  // range, so navigation there is blocked and reported instead.
+  const isYearOutOfRange = useCallback(
+    (value: number) => {
+      const range = getSupportedYearRange(calendar);
+      if (!range || isYearSupported(value, calendar)) {
+        return false;
+      }
+      onWarningRef.current?.({
+        type: 'out-of-range',
+        calendar,
+        year: value,
+        ...range,
+      });
+      return true;
+    },
+    [calendar]
+  );
+
+  // Reset before paint, so the calendar never shows Hijri dates built with a
+  // previous adjustment. Islamic dates in state hold converted Hijri fields,
+  // so they are also rebuilt once a new adjustment is active.
+  useLayoutEffect(() => {
     const newState = {
-      ...initialState,
+      ...getInitialState(),
       isRTL: calendar === 'jalali' || I18nManager.isRTL,
     };
 
     dispatch({ type: CalendarActionKind.RESET_STATE, payload: newState });
-  }, [calendar, initialState]);
+  }, [calendar, getInitialState, activeHijriAdjustment]);
 
   useEffect(() => {
     if (prevTimezone !== timeZone) {
@@ -342,7 +551,7 @@ const DateTimePicker = (
   }, [timeZone, prevTimezone]);
 
   useEffect(() => {
-    if (mode === 'single') {
+    if (selectionMode === 'single') {
       // Anchor every value we store / hand back to `timeZone` so that the
       // day the consumer sees in the UI matches what `.toISOString()` prints.
       let _date =
@@ -380,7 +589,7 @@ const DateTimePicker = (
           date: _date ? getDayjs(_date, calendar, timeZone) : _date,
         });
       }
-    } else if (mode === 'range') {
+    } else if (selectionMode === 'range' || mode === 'week') {
       let start = (
         startDate ? getDayjs(startDate, calendar, timeZone) : startDate
       ) as DateType;
@@ -433,6 +642,7 @@ const DateTimePicker = (
         (onChange as RangeChange)({
           startDate: start ? getDayjs(start, calendar, timeZone) : start,
           endDate: end ? getDayjs(end, calendar, timeZone) : end,
+          ...(mode === 'week' && start && getWeekOfYear(start, firstDay)),
         });
       }
     } else if (mode === 'multiple') {
@@ -451,28 +661,138 @@ const DateTimePicker = (
           change: 'updated',
         });
       }
+    } else if (mode === 'multi-range') {
+      const _ranges = ranges?.map(({ startDate: start, endDate: end }) => ({
+        startDate: getDayjs(start, calendar, timeZone),
+        endDate: end ? getDayjs(end, calendar, timeZone) : end,
+      })) as DateRange[];
+
+      dispatch({
+        type: CalendarActionKind.CHANGE_SELECTED_RANGES,
+        payload: { ranges: _ranges },
+      });
+
+      if (prevTimezone !== timeZone) {
+        (onChange as MultiRangeChange)({ ranges: _ranges ?? [] });
+      }
     }
   }, [
     mode,
+    selectionMode,
     date,
     startDate,
     endDate,
     dates,
+    ranges,
     minDate,
     maxDate,
     timePicker,
     prevTimezone,
     timeZone,
     calendar,
+    firstDay,
     onChange,
   ]);
 
+  // State from before a header calendar switch. Restored after the effects
+  // above have reset it from the props, so the visible month and selection
+  // stay on the same days in the new calendar.
+  const calendarSwitchRef = useRef<LocalState>();
+
+  useEffect(() => {
+    const prevState = calendarSwitchRef.current;
+    if (!prevState) {
+      return;
+    }
+    calendarSwitchRef.current = undefined;
+
+    const toCalendar = (value: DateType) =>
+      value ? getDayjs(dayjs(value).toDate(), calendar, timeZone) : value;
+    const currentDate = toCalendar(prevState.currentDate);
+    dispatch({
+      type: CalendarActionKind.RESET_STATE,
+      payload: {
+        ...prevState,
+        date: toCalendar(prevState.date),
+        startDate: toCalendar(prevState.startDate),
+        endDate: toCalendar(prevState.endDate),
+        dates: prevState.dates?.map(toCalendar),
+        ranges: prevState.ranges?.map((item) => ({
+          startDate: toCalendar(item.startDate),
+          endDate: toCalendar(item.endDate),
+        })),
+        currentDate,
+        currentYear:
+          getDayjs(currentDate, calendar).year() + getYearOffset(calendar),
+        isRTL: calendar === 'jalali' || I18nManager.isRTL,
+      },
+    });
+  }, [calendar, timeZone]);
+
+  const onChangeCalendar = useCallback(
+    (value: CalendarType) => {
+      calendarSwitchRef.current = stateRef.current;
+      setCalendar(value);
+      onCalendarChange?.(value);
+    },
+    [onCalendarChange]
+  );
+
   const setCalendarView = useCallback((view: CalendarViews) => {
     dispatch({ type: CalendarActionKind.SET_CALENDAR_VIEW, payload: view });
   }, []);
 
+  // the disabled day keeping a range from being selected
+  const getBlockingDate = useCallback(
+    (start: DateType, end: DateType) =>
+      disallowDisabledInRange
+        ? getDisabledDateInRange(
+            start,
+            end,
+            { minDate, maxDate, enabledDates, disabledDates },
+            rangeSemantics,
+            calendar,
+            timeZone
+          )
+        : undefined,
+    [
+      disallowDisabledInRange,
+      minDate,
+      maxDate,
+      enabledDates,
+      disabledDates,
+      rangeSemantics,
+      calendar,
+      timeZone,
+    ]
+  );
+
   const onSelectDate = useCallback(
     (selectedDate: DateType) => {
+      const bounds = { minDate, maxDate, enabledDates, disabledDates };
+      const { startDate: pendingStart, endDate: pendingEnd } = stateRef.current;
+      // Counting nights, a disabled day still ends a stay after a free night
+      const isCheckOut =
+        mode === 'range' &&
+        rangeSemantics === 'nights' &&
+        !!pendingStart &&
+        !pendingEnd &&
+        dateToUnix(getDayjs(selectedDate, calendar), calendar) >
+          dateToUnix(getDayjs(pendingStart, calendar), calendar) &&
+        !isDateDisabled(
+          getDayjs(selectedDate, calendar).subtract(1, 'day'),
+          bounds
+        );
+      const disabledReason =
+        mode === 'month' || mode === 'year' || isCheckOut
+          ? undefined
+          : getDisabledReason(getDayjs(selectedDate, calendar), bounds);
+
+      if (disabledReason) {
+        onSelectionRejected?.({ date: selectedDate, reason: disabledReason });
+        return;
+      }
+
       if (onChange) {
         if (mode === 'single') {
           // The `selectedDate` arriving here was already built in `timeZone`
@@ -490,7 +810,63 @@ const DateTimePicker = (
           (onChange as SingleChange)({
             date: newDate ? getDayjs(newDate, calendar, timeZone) : newDate,
           });
+        } else if (mode === 'range' && memoizedFixedRangeLength) {
+          // a single press selects the whole span from the pressed day
+          const start = removeTime(selectedDate, timeZone, calendar);
+          const end = getFixedRangeEnd(
+            start,
+            memoizedFixedRangeLength,
+            rangeSemantics,
+            calendar,
+            timeZone
+          );
+          const disabledDate = getDisabledDateInRange(
+            start,
+            end,
+            bounds,
+            rangeSemantics,
+            calendar,
+            timeZone
+          );
+
+          if (disabledDate) {
+            onInvalidRange?.({ startDate: start, endDate: end, disabledDate });
+            onSelectionRejected?.({
+              date: disabledDate,
+              reason: getDisabledReason(disabledDate, bounds) ?? 'disabled',
+            });
+            return;
+          }
+
+          (onChange as RangeChange)({
+            startDate: getDayjs(start, calendar, timeZone),
+            endDate:
+              calendar === 'islamic'
+                ? end
+                : getEndOfDay(end, calendar, timeZone),
+          });
         } else if (mode === 'range') {
+          // With a time picker, the pressed days keep the times already
+          // chosen for the start and the end
+          const parseTime = (value: DateType) =>
+            timePicker && value
+              ? getParsedDate(value, calendar, timeZone)
+              : undefined;
+          const startTime = parseTime(stateRef.current.startDate);
+          const endTime = parseTime(stateRef.current.endDate);
+          const keepTime = (
+            value: DateType,
+            time: ReturnType<typeof parseTime>
+          ) =>
+            time
+              ? addTime(
+                  getDayjs(value, calendar, timeZone),
+                  calendar,
+                  time.hour,
+                  time.minute
+                )
+              : value;
+
           // set time to 00:00:00
           let start = removeTime(
             stateRef.current.startDate,
@@ -531,29 +907,43 @@ const DateTimePicker = (
           }
 
           if (isStart && end && (min || max)) {
-            const numberOfDays = getDayjs(end, calendar, timeZone).diff(
+            const rangeLength = getRangeLength(
               selected,
-              'day'
+              end,
+              rangeSemantics,
+              calendar,
+              timeZone
             );
 
-            if ((max && numberOfDays > max) || (min && numberOfDays < min)) {
+            if ((max && rangeLength > max) || (min && rangeLength < min)) {
+              onSelectionRejected?.({
+                date: selectedDate,
+                reason: max && rangeLength > max ? 'max-length' : 'min-length',
+              });
               isStart = true;
               end = undefined;
             }
           }
 
           if (!isStart && start && (min || max)) {
-            const numberOfDays = getDayjs(selected, calendar, timeZone).diff(
+            const rangeLength = getRangeLength(
               start,
-              'day'
+              selected,
+              rangeSemantics,
+              calendar,
+              timeZone
             );
 
             if (selectedUnix === startUnix) {
               isReset = true;
             } else if (
-              (max && numberOfDays > max) ||
-              (min && numberOfDays < min)
+              (max && rangeLength > max) ||
+              (min && rangeLength < min)
             ) {
+              onSelectionRejected?.({
+                date: selectedDate,
+                reason: max && rangeLength > max ? 'max-length' : 'min-length',
+              });
               isStart = true;
               end = undefined;
             }
@@ -564,10 +954,16 @@ const DateTimePicker = (
           // rendered, avoiding a ±1 day shift at `.toISOString()`.
           const setEndDate = () => {
             if (!isStart) {
+              if (endTime) {
+                return keepTime(selected, endTime);
+              }
               return calendar === 'islamic'
                 ? selected
                 : getEndOfDay(selected, calendar, timeZone);
             } else {
+              if (end && endTime) {
+                return keepTime(end, endTime);
+              }
               if (end) {
                 return calendar === 'islamic'
                   ? end
@@ -577,19 +973,123 @@ const DateTimePicker = (
             }
           };
 
-          if (isReset) {
+          const nextStart = isStart ? selected : start;
+          const nextEnd = isStart ? end : selected;
+          const disabledDate =
+            !isReset && nextEnd
+              ? getBlockingDate(nextStart, nextEnd)
+              : undefined;
+
+          if (disabledDate) {
+            onInvalidRange?.({
+              startDate: nextStart,
+              endDate: nextEnd,
+              disabledDate,
+            });
+            onSelectionRejected?.({ date: disabledDate, reason: 'disabled' });
+          } else if (isReset) {
             (onChange as RangeChange)({
               startDate: undefined,
               endDate: undefined,
             });
           } else {
             (onChange as RangeChange)({
-              startDate: isStart
-                ? getDayjs(selected, calendar, timeZone)
-                : start,
+              startDate: keepTime(
+                isStart ? getDayjs(selected, calendar, timeZone) : start,
+                startTime
+              ),
               endDate: setEndDate(),
             });
           }
+        } else if (mode === 'week') {
+          (onChange as WeekChange)(
+            getWeekRange(selectedDate, firstDay, calendar, timeZone)
+          );
+        } else if (mode === 'month' || mode === 'year') {
+          const selected = getPeriodRange(
+            selectedDate,
+            mode,
+            calendar,
+            timeZone
+          );
+          const { startDate: start, endDate: end } = stateRef.current;
+          if (!range) {
+            (onChange as SingleChange)({ date: selected.startDate });
+          } else if (!start || end) {
+            (onChange as RangeChange)({
+              startDate: selected.startDate,
+              endDate: undefined,
+            });
+          } else if (
+            dateToUnix(selected.startDate, calendar) >=
+            dateToUnix(start, calendar)
+          ) {
+            (onChange as RangeChange)({
+              startDate: start,
+              endDate: selected.endDate,
+            });
+          } else {
+            (onChange as RangeChange)({
+              startDate: selected.startDate,
+              endDate: getPeriodRange(start, mode, calendar, timeZone).endDate,
+            });
+          }
+        } else if (mode === 'multi-range') {
+          const safeRanges: DateRange[] = stateRef.current.ranges || [];
+          const selected = removeTime(selectedDate, timeZone, calendar);
+          const selectedUnix = dateToUnix(selected, calendar);
+          const isSelectedDay = (value: DateType) =>
+            !!value &&
+            dateToUnix(removeTime(value, timeZone, calendar), calendar) ===
+              selectedUnix;
+
+          const openRange = safeRanges.find((item) => !item.endDate);
+          const closedRanges = safeRanges.filter((item) => item.endDate);
+          let newRanges: DateRange[];
+
+          if (openRange && isSelectedDay(openRange.startDate)) {
+            newRanges = closedRanges;
+          } else if (openRange) {
+            const [first, last] =
+              selectedUnix <
+              dateToUnix(
+                removeTime(openRange.startDate, timeZone, calendar),
+                calendar
+              )
+                ? [selected, openRange.startDate]
+                : [openRange.startDate, selected];
+            newRanges = mergeDateRanges(
+              [
+                ...closedRanges,
+                {
+                  startDate: getDayjs(first, calendar, timeZone),
+                  endDate:
+                    calendar === 'islamic'
+                      ? last
+                      : getEndOfDay(last, calendar, timeZone),
+                },
+              ],
+              calendar,
+              timeZone
+            );
+          } else {
+            // Tapping an endpoint removes its range, any other day starts one
+            const tappedRange = closedRanges.find(
+              (item) =>
+                isSelectedDay(item.startDate) || isSelectedDay(item.endDate)
+            );
+            newRanges = tappedRange
+              ? closedRanges.filter((item) => item !== tappedRange)
+              : [
+                  ...closedRanges,
+                  {
+                    startDate: getDayjs(selected, calendar, timeZone),
+                    endDate: undefined,
+                  },
+                ];
+          }
+
+          (onChange as MultiRangeChange)({ ranges: newRanges });
         } else if (mode === 'multiple') {
           const safeDates = (stateRef.current.dates as DateType[]) || [];
           // Anchor the pressed day to `timeZone` midnight so start-of-day is
@@ -611,6 +1111,7 @@ const DateTimePicker = (
             : [...safeDates, newDate];
 
           if (max && newDates.length > max) {
+            onSelectionRejected?.({ date: newDate, reason: 'max-count' });
             return;
           }
 
@@ -628,42 +1129,218 @@ const DateTimePicker = (
         }
       }
     },
-    [onChange, calendar, mode, timePicker, timeZone, min, max]
+    [
+      onChange,
+      onInvalidRange,
+      onSelectionRejected,
+      getBlockingDate,
+      minDate,
+      maxDate,
+      enabledDates,
+      disabledDates,
+      memoizedFixedRangeLength,
+      calendar,
+      mode,
+      range,
+      timePicker,
+      timeZone,
+      min,
+      max,
+      rangeSemantics,
+      firstDay,
+    ]
+  );
+
+  // set the time of the start or end of the range from the time picker
+  const onSelectTime = useCallback(
+    (selectedTime: DateType, edge: 'start' | 'end') => {
+      const { startDate: start, endDate: end } = stateRef.current;
+      const newTime =
+        calendar === 'islamic'
+          ? selectedTime
+          : getDayjs(selectedTime, calendar, timeZone).startOf('minute');
+      const newStart = edge === 'start' ? newTime : start;
+      const newEnd = edge === 'end' ? newTime : end;
+
+      // The end can't be moved before the start on the same day
+      if (
+        calendar !== 'islamic' &&
+        newStart &&
+        newEnd &&
+        getDayjs(newStart, calendar, timeZone).isAfter(
+          getDayjs(newEnd, calendar, timeZone)
+        )
+      ) {
+        return;
+      }
+
+      (onChange as RangeChange | undefined)?.({
+        startDate: newStart,
+        endDate: newEnd,
+      });
+    },
+    [onChange, calendar, timeZone]
+  );
+
+  // select the days between two days dragged across the days grid
+  const onSelectRange = useCallback(
+    (from: DateType, to: DateType) => {
+      const fromDay = removeTime(from, timeZone, calendar);
+      const toDay = removeTime(to, timeZone, calendar);
+      const [start, end] =
+        dateToUnix(fromDay, calendar) <= dateToUnix(toDay, calendar)
+          ? [fromDay, toDay]
+          : [toDay, fromDay];
+
+      const rangeLength = getRangeLength(
+        start,
+        end,
+        rangeSemantics,
+        calendar,
+        timeZone
+      );
+      if ((max && rangeLength > max) || (min && rangeLength < min)) {
+        onSelectionRejected?.({
+          date: to,
+          reason: max && rangeLength > max ? 'max-length' : 'min-length',
+        });
+        return;
+      }
+
+      const disabledDate = getBlockingDate(start, end);
+      if (disabledDate) {
+        onInvalidRange?.({ startDate: start, endDate: end, disabledDate });
+        onSelectionRejected?.({ date: disabledDate, reason: 'disabled' });
+        return;
+      }
+
+      (onChange as RangeChange | undefined)?.({
+        startDate: getDayjs(start, calendar, timeZone),
+        endDate:
+          calendar === 'islamic' ? end : getEndOfDay(end, calendar, timeZone),
+      });
+    },
+    [
+      onChange,
+      onInvalidRange,
+      onSelectionRejected,
+      getBlockingDate,
+      calendar,
+      timeZone,
+      min,
+      max,
+      rangeSemantics,
+    ]
+  );
+
+  // select the range of a preset and show its first month
+  const onSelectPreset = useCallback(
+    (range?: DateRange) => {
+      const disabledDate =
+        range?.startDate && range.endDate
+          ? getBlockingDate(range.startDate, range.endDate)
+          : undefined;
+      if (range && disabledDate) {
+        onInvalidRange?.({ ...range, disabledDate });
+        onSelectionRejected?.({ date: disabledDate, reason: 'disabled' });
+        return;
+      }
+
+      if (range?.startDate) {
+        dispatch({
+          type: CalendarActionKind.CHANGE_CURRENT_DATE,
+          payload: range.startDate,
+        });
+      }
+
+      (onChange as RangeChange | undefined)?.({
+        startDate: range?.startDate,
+        endDate: range?.endDate,
+      });
+    },
+    [onChange, onInvalidRange, onSelectionRejected, getBlockingDate]
   );
 
   // set the active displayed month
   const onSelectMonth = useCallback(
-    (value: number) => {
+    (value: number, year?: number) => {
       const currentMonth = stateRef.current.currentDate.month();
-      const newDate = stateRef.current.currentDate.month(value);
+      const currentYear = stateRef.current.currentDate.year();
+      let newDate = stateRef.current.currentDate;
+      // Fiscal periods may fall in the next or previous Gregorian year
+      if (year !== undefined) {
+        newDate = newDate.year(year);
+      }
+      newDate = newDate.month(value);
+      // Calendar systems roll the 30th over into the next month when the
+      // target month is shorter (e.g. the 5-day Pagumen), so clamp the day.
+      if (isCalendarSystem(calendar)) {
+        const currentDate = getDayjs(stateRef.current.currentDate, calendar);
+        newDate = getCalendarSystemDate(
+          calendar,
+          currentDate.year(),
+          value,
+          Math.min(
+            currentDate.get('date'),
+            getDaysInCalendarMonth(currentDate.year(), value, calendar)
+          ),
+          currentDate
+        );
+      }
 
       // Only call onMonthChange if the month actually changed
       if (value !== currentMonth) {
         onMonthChange(value);
       }
+      if (year !== undefined && year !== currentYear) {
+        onYearChange(year);
+      }
 
       dispatch({
         type: CalendarActionKind.CHANGE_CURRENT_DATE,
         payload: getDayjs(newDate, calendar, timeZone),
       });
-      setCalendarView('day');
+      setCalendarView(mode === 'month' ? 'month' : 'day');
     },
-    [calendar, setCalendarView, onMonthChange, timeZone]
+    [calendar, mode, setCalendarView, onMonthChange, onYearChange, timeZone]
   );
 
-  // set the active displayed year
+  // set the active displayed year, `value` is in the displayed era
   const onSelectYear = useCallback(
     (value: number) => {
-      const currentYear = getDayjs(
-        stateRef.current.currentDate,
-        calendar,
-        timeZone
-      ).year();
-      const newDate = getDayjs(
+      const yearOffset = getYearOffset(calendar);
+      const currentYear =
+        getDayjs(stateRef.current.currentDate, calendar, timeZone).year() +
+        yearOffset;
+      if (isYearOutOfRange(value - yearOffset)) {
+        return;
+      }
+      const currentDate = getDayjs(
         stateRef.current.currentDate,
         calendar,
         timeZone
-      ).year(value);
+      );
+      let newDate = currentDate.year(value - yearOffset);
+      // Calendar systems roll the 13th month of a leap year (or the 30th of
+      // a 29-day month) over when the target year doesn't have it, so clamp
+      // to the last month and day instead.
+      if (isCalendarSystem(calendar)) {
+        const newYear = value - yearOffset;
+        const newMonth = Math.min(
+          currentDate.month(),
+          getMonthsInYear(newYear, calendar) - 1
+        );
+        newDate = getCalendarSystemDate(
+          calendar,
+          newYear,
+          newMonth,
+          Math.min(
+            currentDate.get('date'),
+            getDaysInCalendarMonth(newYear, newMonth, calendar)
+          ),
+          currentDate
+        );
+      }
 
       // Only call onYearChange if the year actually changed
       if (value !== currentYear) {
@@ -674,36 +1351,74 @@ const DateTimePicker = (
         type: CalendarActionKind.CHANGE_CURRENT_DATE,
         payload: newDate,
       });
-      setCalendarView('day');
+      setCalendarView(mode === 'month' ? 'month' : 'day');
     },
-    [calendar, setCalendarView, onYearChange, timeZone]
+    [calendar, mode, setCalendarView, onYearChange, timeZone, isYearOutOfRange]
   );
 
-  const onChangeMonth = useCallback((value: number) => {
-    const currentMonth = stateRef.current.currentDate.month();
-    const newDate = stateRef.current.currentDate.month(currentMonth + value);
+  const onChangeMonth = useCallback(
+    (value: number) => {
+      let currentDate = stateRef.current.currentDate as dayjs.Dayjs;
+      // Calendar systems roll an out-of-range day over into the next month
+      // (e.g. the 30th of a 29-day month), which would skip a month here.
+      if (isCalendarSystem(calendar)) {
+        currentDate = currentDate.date(1) as dayjs.Dayjs;
+      }
+      const currentMonth = currentDate.month();
+      const newYear =
+        currentDate.year() +
+        Math.floor(
+          (currentMonth + value) / getMonthsInYear(currentDate.year(), calendar)
+        );
+      if (isYearOutOfRange(newYear)) {
+        return;
+      }
+      const newDate = currentDate.month(currentMonth + value);
 
-    dispatch({
-      type: CalendarActionKind.CHANGE_CURRENT_DATE,
-      payload: newDate,
-    });
-  }, []);
+      dispatch({
+        type: CalendarActionKind.CHANGE_CURRENT_DATE,
+        payload: newDate,
+      });
+    },
+    [calendar, isYearOutOfRange]
+  );
 
   const onChangeYear = useCallback(
     (value: number) => {
+      // The years grid pages through whole ranges, so only block a page
+      // without any supported year.
+      const yearOffset = getYearOffset(calendar);
+      const years =
+        stateRef.current.calendarView === 'year'
+          ? getYearRange(value)
+          : [value];
+      if (
+        !years.some((y) => isYearSupported(y - yearOffset, calendar)) &&
+        isYearOutOfRange(value - yearOffset)
+      ) {
+        return;
+      }
       dispatch({
         type: CalendarActionKind.CHANGE_CURRENT_YEAR,
         payload: value,
       });
     },
-    [dispatch]
+    [calendar, isYearOutOfRange]
   );
 
   useEffect(() => {
-    if (month !== undefined && month >= 0 && month <= 11) {
+    if (
+      month !== undefined &&
+      month >= 0 &&
+      month <
+        getMonthsInYear(
+          getDayjs(stateRef.current.currentDate, calendar).year(),
+          calendar
+        )
+    ) {
       onSelectMonth(month);
     }
-  }, [month, onSelectMonth]);
+  }, [calendar, month, onSelectMonth]);
 
   useEffect(() => {
     if (year !== undefined && year >= 0) {
@@ -727,11 +1442,17 @@ const DateTimePicker = (
   const baseContextValue = useMemo(
     () => ({
       mode,
+      range,
       calendar,
+      calendars,
+      secondaryCalendar,
+      presets,
+      dragToSelect,
       locale,
       numerals,
       timeZone,
       showOutsideDays,
+      showWeekNumbers,
       timePicker,
       timePickerOptions,
       minDate,
@@ -747,6 +1468,8 @@ const DateTimePicker = (
       weekdaysFormat,
       monthsFormat,
       monthCaptionFormat,
+      yearFormat,
+      fiscalCalendar,
       multiRangeMode,
       hideHeader,
       hideWeekdays,
@@ -758,15 +1481,26 @@ const DateTimePicker = (
       events,
       eventViewMode,
       displayEventTooltip,
+      displayRangePreviewTooltip,
+      rangeSemantics,
+      disallowDisabledInRange,
+      fixedRangeLength: memoizedFixedRangeLength,
       onEventDayPress,
+      onSelectionRejected,
     }),
     [
       mode,
+      range,
       calendar,
+      calendars,
+      secondaryCalendar,
+      presets,
+      dragToSelect,
       locale,
       numerals,
       timeZone,
       showOutsideDays,
+      showWeekNumbers,
       timePicker,
       timePickerOptions,
       minDate,
@@ -782,6 +1516,8 @@ const DateTimePicker = (
       weekdaysFormat,
       monthsFormat,
       monthCaptionFormat,
+      yearFormat,
+      fiscalCalendar,
       multiRangeMode,
       hideHeader,
       hideWeekdays,
@@ -793,7 +1529,12 @@ const DateTimePicker = (
       events,
       eventViewMode,
       displayEventTooltip,
+      displayRangePreviewTooltip,
+      rangeSemantics,
+      disallowDisabledInRange,
+      memoizedFixedRangeLength,
       onEventDayPress,
+      onSelectionRejected,
     ]
   );
 
@@ -801,18 +1542,26 @@ const DateTimePicker = (
     () => ({
       setCalendarView,
       onSelectDate,
+      onSelectTime,
+      onSelectPreset,
+      onSelectRange,
       onSelectMonth,
       onSelectYear,
       onChangeMonth,
       onChangeYear,
+      onChangeCalendar,
     }),
     [
       setCalendarView,
       onSelectDate,
+      onSelectTime,
+      onSelectPreset,
+      onSelectRange,
       onSelectMonth,
       onSelectYear,
       onChangeMonth,
       onChangeYear,
+      onChangeCalendar,
     ]
   );
 
@@ -843,7 +1592,7 @@ const DateTimePicker = (
 
   return (
     <CalendarContext.Provider value={memoizedValue}>
-      <Calendar />
+      {isHijriAdjustmentActive ? <Calendar /> : null}
     </CalendarContext.Provider>
   );
 };
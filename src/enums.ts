@@ -7,9 +7,18 @@ export enum CalendarActionKind {
   CHANGE_SELECTED_DATE = 'CHANGE_SELECTED_DATE',
   CHANGE_SELECTED_RANGE = 'CHANGE_SELECTED_RANGE',
   CHANGE_SELECTED_MULTIPLE = 'CHANGE_SELECTED_MULTIPLE',
+  CHANGE_SELECTED_RANGES = 'CHANGE_SELECTED_RANGES',
   SET_IS_RTL = 'SET_IS_RTL',
   RESET_STATE = 'RESET_STATE',
 }
 
 export const CONTAINER_HEIGHT = 300;
 export const WEEKDAYS_HEIGHT = 25;
+export const WEEK_NUMBER_WIDTH = 28;
+// Narrower calendars show the range presets as a row of chips
+export const PRESETS_LIST_MIN_WIDTH = 480;
+// A press moved this far selects by dragging instead
+export const DRAG_THRESHOLD = 8;
+// Dragging this close to a side of the days grid turns the month
+export const DRAG_EDGE_WIDTH = 16;
+export const DRAG_EDGE_DELAY = 600;
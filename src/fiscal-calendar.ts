@@ -0,0 +1,162 @@
+import dayjs from 'dayjs';
+import type {
+  DateType,
+  FiscalCalendar,
+  FiscalPeriod,
+  FiscalYear,
+  Numerals,
+} from './types';
+import { formatNumber } from './utils';
+
+const WEEK_PATTERNS = {
+  '4-4-5': [4, 4, 5],
+  '4-5-4': [4, 5, 4],
+  '5-4-4': [5, 4, 4],
+};
+
+// Fiscal dates are Gregorian days, keeping the wall-clock day of zoned dates
+const toDay = (date: DateType) => {
+  const day = dayjs(date);
+  return dayjs(new Date(day.year(), day.month(), day.get('date')));
+};
+
+/**
+ * Get the first day of the fiscal year starting around `startMonth` of a
+ * Gregorian year.
+ */
+const getFiscalYearStart = (year: number, fiscalCalendar: FiscalCalendar) => {
+  const { startMonth = 3, weekPattern, weekStartsOn = 0 } = fiscalCalendar;
+  const firstOfMonth = dayjs(new Date(year, startMonth, 1));
+  if (!weekPattern) {
+    return firstOfMonth;
+  }
+
+  const daysAhead = (weekStartsOn - firstOfMonth.day() + 7) % 7;
+  return daysAhead <= 3
+    ? firstOfMonth.add(daysAhead, 'day')
+    : firstOfMonth.subtract(7 - daysAhead, 'day');
+};
+
+// Gregorian year a fiscal year starts around, and back
+const getFiscalYearOffset = ({
+  startMonth = 3,
+  yearNaming = 'end',
+}: FiscalCalendar) => (yearNaming === 'end' && startMonth > 0 ? 1 : 0);
+
+/**
+ * Get the periods of a fiscal year.
+ *
+ * @param year - fiscal year number
+ * @param fiscalCalendar - fiscal year layout
+ *
+ * @returns the 12 periods of the year
+ */
+export const getFiscalPeriods = (
+  year: number,
+  fiscalCalendar: FiscalCalendar
+): FiscalPeriod[] => {
+  const startYear = year - getFiscalYearOffset(fiscalCalendar);
+  const startDate = getFiscalYearStart(startYear, fiscalCalendar);
+  const endDate = getFiscalYearStart(startYear + 1, fiscalCalendar).subtract(
+    1,
+    'day'
+  );
+
+  const { weekPattern } = fiscalCalendar;
+  const weeks = weekPattern
+    ? Array.from({ length: 4 }, () => WEEK_PATTERNS[weekPattern]).flat()
+    : [];
+
+  let periodStart = startDate;
+  return Array.from({ length: 12 }, (_, index) => {
+    const nextPeriodStart = weekPattern
+      ? periodStart.add(weeks[index] ?? 0, 'week')
+      : startDate.add(index + 1, 'month');
+    const period = {
+      year,
+      period: index + 1,
+      startDate: periodStart,
+      // The 53rd week of a long retail year joins the last period
+      endDate: index === 11 ? endDate : nextPeriodStart.subtract(1, 'day'),
+    };
+    periodStart = nextPeriodStart;
+    return period;
+  });
+};
+
+/**
+ * Get the fiscal year a date falls in.
+ *
+ * @param date - Gregorian date
+ * @param fiscalCalendar - fiscal year layout
+ *
+ * @returns fiscal year with its first and last day
+ */
+export const getFiscalYear = (
+  date: DateType,
+  fiscalCalendar: FiscalCalendar
+): FiscalYear => {
+  const day = toDay(date);
+  // A retail year starting in January may start late in December
+  let startYear = day.year() + 1;
+  while (getFiscalYearStart(startYear, fiscalCalendar).isAfter(day)) {
+    startYear--;
+  }
+
+  const year = startYear + getFiscalYearOffset(fiscalCalendar);
+  const periods = getFiscalPeriods(year, fiscalCalendar);
+  return {
+    year,
+    startDate: periods[0]!.startDate,
+    endDate: periods[11]!.endDate,
+  };
+};
+
+/**
+ * Get the fiscal period a date falls in, e.g. to use its boundaries as a
+ * range preset.
+ *
+ * @param date - Gregorian date
+ * @param fiscalCalendar - fiscal year layout
+ *
+ * @returns fiscal period with its first and last day
+ */
+export const getFiscalPeriod = (
+  date: DateType,
+  fiscalCalendar: FiscalCalendar
+): FiscalPeriod => {
+  const day = toDay(date);
+  const { year } = getFiscalYear(day, fiscalCalendar);
+  const periods = getFiscalPeriods(year, fiscalCalendar);
+
+  return (
+    periods.find((period) => !period.endDate.isBefore(day)) ?? periods[11]!
+  );
+};
+
+/**
+ * Get the fiscal period shown for a calendar month: the period holding its
+ * 15th, since retail periods don't follow month boundaries.
+ */
+export const getFiscalPeriodOfMonth = (
+  date: DateType,
+  fiscalCalendar: FiscalCalendar
+) => getFiscalPeriod(toDay(date).set('date', 15), fiscalCalendar);
+
+/**
+ * Check if a fiscal period lies wholly outside `minDate` and `maxDate`.
+ *
+ * @returns true if none of the period's days can be picked
+ */
+export const isFiscalPeriodDisabled = (
+  { startDate, endDate }: FiscalPeriod,
+  { minDate, maxDate }: { minDate?: DateType; maxDate?: DateType }
+) =>
+  (!!minDate && endDate.isBefore(toDay(minDate))) ||
+  (!!maxDate && startDate.isAfter(toDay(maxDate)));
+
+export const formatFiscalPeriod = (period: number, numerals: Numerals) =>
+  `P${formatNumber(period, numerals)}`;
+
+export const formatFiscalYear = (year: number, numerals: Numerals) =>
+  `FY${formatNumber(year, numerals)}`;
@@ -0,0 +1,254 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  LayoutChangeEvent,
+  PanResponder,
+  Platform,
+  PointerEvent,
+  View,
+} from 'react-native';
+import { DRAG_EDGE_DELAY, DRAG_EDGE_WIDTH, DRAG_THRESHOLD } from '../enums';
+
+export type DragPoint = {
+  /** Offset from the left of the dragged view. */
+  x: number;
+  /** Offset from the top of the dragged view. */
+  y: number;
+  /** Width of the dragged view. */
+  width: number;
+};
+
+type Options = {
+  enabled: boolean;
+  /** The drag moved past the threshold from where it was pressed. */
+  onStart: (point: DragPoint) => void;
+  onMove: (point: DragPoint) => void;
+  onEnd: () => void;
+  /** Called every `DRAG_EDGE_DELAY` while the drag stays at an edge. */
+  onEdgeHover: (side: 'left' | 'right') => void;
+};
+
+type Origin = { x: number; y: number; width: number };
+
+// Minimal DOM surface of the view under a pointer on web
+type PointerTarget = {
+  getBoundingClientRect: () => { left: number; top: number; width: number };
+  setPointerCapture?: (pointerId: number) => void;
+};
+
+/**
+ * Tracks a press dragged across a view, with a PanResponder on native and
+ * pointer events on web. Presses that don't move past `DRAG_THRESHOLD` are
+ * left to the pressables inside the view.
+ */
+export const useDragSelect = ({
+  enabled,
+  onStart,
+  onMove,
+  onEnd,
+  onEdgeHover,
+}: Options) => {
+  const viewRef = useRef<View>(null);
+  const originRef = useRef<Origin>({ x: 0, y: 0, width: 0 });
+  const startRef = useRef<{ x: number; y: number }>();
+  const isDraggingRef = useRef(false);
+  const wasDraggedRef = useRef(false);
+  const edgeRef = useRef<{
+    side: 'left' | 'right';
+    timer: ReturnType<typeof setInterval>;
+  }>();
+  // Latest native position while the grid is measured at the grant
+  const pendingMoveRef = useRef<{ x: number; y: number }>();
+  // Captures the pressed pointer on web once the press turns into a drag
+  const captureRef = useRef<() => void>();
+
+  const callbacksRef = useRef({ onStart, onMove, onEnd, onEdgeHover });
+  callbacksRef.current = { onStart, onMove, onEnd, onEdgeHover };
+
+  const clearEdge = useCallback(() => {
+    if (edgeRef.current) {
+      clearInterval(edgeRef.current.timer);
+      edgeRef.current = undefined;
+    }
+  }, []);
+
+  useEffect(() => clearEdge, [clearEdge]);
+
+  const toPoint = useCallback(
+    (x: number, y: number): DragPoint => ({
+      x: x - originRef.current.x,
+      y: y - originRef.current.y,
+      width: originRef.current.width,
+    }),
+    []
+  );
+
+  const updateEdge = useCallback(
+    ({ x, width }: DragPoint) => {
+      const side =
+        x <= DRAG_EDGE_WIDTH
+          ? 'left'
+          : x >= width - DRAG_EDGE_WIDTH
+            ? 'right'
+            : undefined;
+      if (side === edgeRef.current?.side) {
+        return;
+      }
+      clearEdge();
+      if (side) {
+        edgeRef.current = {
+          side,
+          timer: setInterval(
+            () => callbacksRef.current.onEdgeHover(side),
+            DRAG_EDGE_DELAY
+          ),
+        };
+      }
+    },
+    [clearEdge]
+  );
+
+  const start = useCallback((x: number, y: number) => {
+    startRef.current = { x, y };
+    isDraggingRef.current = false;
+  }, []);
+
+  const move = useCallback(
+    (x: number, y: number) => {
+      const origin = startRef.current;
+      if (!origin) {
+        return;
+      }
+      if (!isDraggingRef.current) {
+        if (
+          Math.abs(x - origin.x) < DRAG_THRESHOLD &&
+          Math.abs(y - origin.y) < DRAG_THRESHOLD
+        ) {
+          return;
+        }
+        isDraggingRef.current = true;
+        captureRef.current?.();
+        callbacksRef.current.onStart(toPoint(origin.x, origin.y));
+      }
+      const point = toPoint(x, y);
+      updateEdge(point);
+      callbacksRef.current.onMove(point);
+    },
+    [toPoint, updateEdge]
+  );
+
+  const end = useCallback(() => {
+    clearEdge();
+    startRef.current = undefined;
+    captureRef.current = undefined;
+    if (isDraggingRef.current) {
+      isDraggingRef.current = false;
+      // On web the pressed day still fires its press after the pointer is
+      // released, native hands the press over to the responder instead
+      if (Platform.OS === 'web') {
+        wasDraggedRef.current = true;
+        setTimeout(() => {
+          wasDraggedRef.current = false;
+        });
+      }
+      callbacksRef.current.onEnd();
+    }
+  }, [clearEdge]);
+
+  const measure = useCallback((onMeasure?: () => void) => {
+    const view = viewRef.current;
+    if (!view?.measureInWindow) {
+      onMeasure?.();
+      return;
+    }
+    view.measureInWindow((x, y, width) => {
+      originRef.current = { x, y, width };
+      onMeasure?.();
+    });
+  }, []);
+
+  const onLayout = useCallback(
+    (event: LayoutChangeEvent) => {
+      originRef.current.width = event.nativeEvent.layout.width;
+      measure();
+    },
+    [measure]
+  );
+
+  const release = useCallback(() => {
+    pendingMoveRef.current = undefined;
+    end();
+  }, [end]);
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        // Taps stay with the day pressables until the press moves
+        onMoveShouldSetPanResponderCapture: (_, gesture) =>
+          enabled &&
+          (Math.abs(gesture.dx) >= DRAG_THRESHOLD ||
+            Math.abs(gesture.dy) >= DRAG_THRESHOLD),
+        onPanResponderGrant: (_, gesture) => {
+          start(gesture.x0, gesture.y0);
+          // The grid may have moved since its layout, in a ScrollView or a
+          // modal, so moves wait for it to be measured again
+          pendingMoveRef.current = { x: gesture.moveX, y: gesture.moveY };
+          measure(() => {
+            const pendingMove = pendingMoveRef.current;
+            pendingMoveRef.current = undefined;
+            if (pendingMove) {
+              move(pendingMove.x, pendingMove.y);
+            }
+          });
+        },
+        onPanResponderMove: (_, gesture) => {
+          if (pendingMoveRef.current) {
+            pendingMoveRef.current = { x: gesture.moveX, y: gesture.moveY };
+            return;
+          }
+          move(gesture.moveX, gesture.moveY);
+        },
+        onPanResponderRelease: release,
+        onPanResponderTerminate: release,
+        onPanResponderTerminationRequest: () => false,
+      }),
+    [enabled, start, move, release, measure]
+  );
+
+  const pointerHandlers = useMemo(
+    () => ({
+      onPointerDown: ({ nativeEvent, currentTarget }: PointerEvent) => {
+        const target = currentTarget as unknown as PointerTarget;
+        const rect = target.getBoundingClientRect();
+        originRef.current = { x: rect.left, y: rect.top, width: rect.width };
+        const { pointerId } = nativeEvent;
+        start(nativeEvent.clientX, nativeEvent.clientY);
+        captureRef.current =
+          pointerId === undefined
+            ? undefined
+            : () => target.setPointerCapture?.(pointerId);
+      },
+      onPointerMove: ({ nativeEvent }: PointerEvent) => {
+        move(nativeEvent.clientX, nativeEvent.clientY);
+      },
+      onPointerUp: end,
+      onPointerCancel: end,
+    }),
+    [start, move, end]
+  );
+
+  // Whether a press comes from the release of a drag rather than a tap
+  const consumeDrag = useCallback(() => {
+    const wasDragged = wasDraggedRef.current;
+    wasDraggedRef.current = false;
+    return wasDragged;
+  }, []);
+
+  const handlers = !enabled
+    ? {}
+    : {
+        onLayout,
+        ...(Platform.OS === 'web' ? pointerHandlers : panResponder.panHandlers),
+      };
+
+  return { ref: viewRef, handlers, consumeDrag };
+};
@@ -9,6 +9,7 @@ export type {
   CalendarWeek,
   CalendarMonth,
   CalendarYear,
+  CalendarWeekNumber,
   CalendarComponents,
 } from './types';
 
@@ -16,4 +17,14 @@ export * from './types';
 
 export { useDefaultClassNames, useDefaultStyles } from './theme';
 
+export { registerCalendar } from './calendar-systems';
+
+export { rangePresets } from './presets';
+
+export {
+  getFiscalPeriod,
+  getFiscalPeriods,
+  getFiscalYear,
+} from './fiscal-calendar';
+
 export default DateTimePicker;
@@ -1,6 +1,9 @@
 import { Numerals } from './types';
 
-export const numeralSystems: Record<Numerals, readonly string[]> = {
+export const numeralSystems: Record<
+  Exclude<Numerals, 'hebr'>,
+  readonly string[]
+> = {
   latn: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
   arab: ['٠', '١', '٢', '٣', '٤', '٥', '٦', '٧', '٨', '٩'],
   arabext: ['۰', '۱', '۲', '۳', '۴', '۵', '۶', '۷', '۸', '۹'],
@@ -14,3 +17,51 @@ export const numeralSystems: Record<Numerals, readonly string[]> = {
   knda: ['೦', '೧', '೨', '೩', '೪', '೫', '೬', '೭', '೮', '೯'],
   mlym: ['൦', '൧', '൨', '൩', '൪', '൫', '൬', '൭', '൮', '൯'],
 } as const;
+
+const HEBREW_ONES = ['', 'א', 'ב', 'ג', 'ד', 'ה', 'ו', 'ז', 'ח', 'ט'];
+const HEBREW_TENS = ['', 'י', 'כ', 'ל', 'מ', 'נ', 'ס', 'ע', 'פ', 'צ'];
+const HEBREW_HUNDREDS = ['', 'ק', 'ר', 'ש', 'ת'];
+
+const GERESH = '׳';
+const GERSHAYIM = '״';
+
+/**
+ * Formats a number with Hebrew (gematria) numerals, the way days and years
+ * are written on Hebrew calendars: 15 → ט״ו, 5785 → ה׳תשפ״ה.
+ *
+ * Hebrew numerals are additive rather than positional, so they can't be
+ * expressed as a digit map in `numeralSystems`.
+ */
+export function formatHebrewNumeral(value: number): string {
+  if (value <= 0) {
+    return value.toString();
+  }
+
+  const thousands = Math.floor(value / 1000);
+  let rest = value % 1000;
+  let letters = '';
+
+  while (rest >= 400) {
+    letters += HEBREW_HUNDREDS[4];
+    rest -= 400;
+  }
+  letters += HEBREW_HUNDREDS[Math.floor(rest / 100)];
+  rest %= 100;
+
+  // 15 and 16 are written as 9+6 and 9+7 to avoid spelling the divine name.
+  if (rest === 15 || rest === 16) {
+    letters += `${HEBREW_ONES[9]}${HEBREW_ONES[rest - 9]}`;
+  } else {
+    letters += `${HEBREW_TENS[Math.floor(rest / 10)]}${HEBREW_ONES[rest % 10]}`;
+  }
+
+  if (letters.length === 1) {
+    letters += GERESH;
+  } else if (letters.length > 1) {
+    letters = `${letters.slice(0, -1)}${GERSHAYIM}${letters.slice(-1)}`;
+  }
+
+  return thousands > 0
+    ? `${formatHebrewNumeral(thousands).replace(GERSHAYIM, '').replace(GERESH, '')}${GERESH}${letters}`
+    : letters;
+}
@@ -0,0 +1,135 @@
+import dayjs from 'dayjs';
+import type {
+  CalendarType,
+  DateRange,
+  DateType,
+  RangePreset,
+  RangePresetOptions,
+} from './types';
+import {
+  areDatesOnSameDay,
+  getDayjs,
+  getEndOfDay,
+  getPeriodRange,
+  getWeekRange,
+  removeTime,
+} from './utils';
+
+// Range of `days` days ending `daysAgo` days before today
+const lastDays =
+  (days: number, daysAgo: number = 0): RangePreset['getRange'] =>
+  (today, { calendar, timeZone }) => {
+    const end = (removeTime(today, timeZone, calendar) as dayjs.Dayjs).subtract(
+      daysAgo,
+      'day'
+    );
+    return {
+      startDate: end.subtract(days - 1, 'day'),
+      endDate:
+        calendar === 'islamic' ? end : getEndOfDay(end, calendar, timeZone),
+    };
+  };
+
+const week =
+  (weeksAgo: number): RangePreset['getRange'] =>
+  (today, { calendar, timeZone, firstDayOfWeek }) => {
+    const { startDate, endDate } = getWeekRange(
+      today.subtract(weeksAgo * 7, 'day'),
+      firstDayOfWeek,
+      calendar,
+      timeZone
+    );
+    return { startDate, endDate };
+  };
+
+const createPreset = (
+  label: string,
+  getRange: RangePreset['getRange']
+): RangePreset => ({ label, getRange });
+
+/**
+ * Built-in presets for the `presets` prop, in the picker's calendar and time
+ * zone. Spread one to rename it, e.g. `{ ...rangePresets.today, label: 'Hoy' }`.
+ */
+export const rangePresets = {
+  today: createPreset('Today', lastDays(1)),
+  yesterday: createPreset('Yesterday', lastDays(1, 1)),
+  last7Days: createPreset('Last 7 days', lastDays(7)),
+  last30Days: createPreset('Last 30 days', lastDays(30)),
+  thisWeek: createPreset('This week', week(0)),
+  lastWeek: createPreset('Last week', week(1)),
+  thisMonth: createPreset('This month', (today, { calendar, timeZone }) =>
+    getPeriodRange(today, 'month', calendar, timeZone)
+  ),
+  lastMonth: createPreset('Last month', (today, { calendar, timeZone }) =>
+    getPeriodRange(
+      today.set('date', 1).subtract(1, 'day'),
+      'month',
+      calendar,
+      timeZone
+    )
+  ),
+  thisYear: createPreset('This year', (today, { calendar, timeZone }) =>
+    getPeriodRange(today, 'year', calendar, timeZone)
+  ),
+  // Active when the selection matches no other preset
+  custom: createPreset('Custom…', () => undefined),
+};
+
+/**
+ * Get the range of a preset for today, kept within `minDate` and `maxDate`.
+ *
+ * @param preset - range preset
+ * @param options - calendar, time zone and bounds of the picker
+ *
+ * @returns the range, undefined for a custom preset, and whether the range
+ * falls outside the bounds
+ */
+export const getPresetRange = (
+  preset: RangePreset,
+  {
+    minDate,
+    maxDate,
+    ...options
+  }: RangePresetOptions & { minDate?: DateType; maxDate?: DateType }
+): { range?: DateRange; isDisabled: boolean } => {
+  const { calendar, timeZone } = options;
+  const today = getDayjs(dayjs().tz(timeZone), calendar, timeZone);
+  const range = preset.getRange(today, options);
+  if (!range) {
+    return { range, isDisabled: false };
+  }
+
+  let start = getDayjs(range.startDate, calendar, timeZone);
+  let end = getDayjs(range.endDate, calendar, timeZone);
+
+  if (minDate && start.isBefore(minDate)) {
+    start = getDayjs(minDate, calendar, timeZone);
+  }
+
+  if (maxDate && end.isAfter(maxDate)) {
+    end = getDayjs(maxDate, calendar, timeZone);
+  }
+
+  return {
+    range: { startDate: start, endDate: end },
+    isDisabled: start.isAfter(end),
+  };
+};
+
+/**
+ * Check if a selected range matches the range of a preset.
+ *
+ * @param range - range of the preset
+ * @param selection - selected start and end dates
+ * @param {CalendarType} [calendar] - Optional calendar type
+ *
+ * @returns true if both ends fall on the same days
+ */
+export const isPresetActive = (
+  range: DateRange,
+  { startDate, endDate }: { startDate: DateType; endDate: DateType },
+  calendar?: CalendarType
+) =>
+  areDatesOnSameDay(range.startDate, startDate, calendar) &&
+  areDatesOnSameDay(range.endDate, endDate, calendar);
@@ -15,6 +15,10 @@ export function useDefaultClassNames(): ClassNames {
     [UI.day_cell]: 'p-0.5',
     [UI.day]: 'group rounded-md web:hover:bg-accent',
     [UI.day_label]: 'web:whitespace-nowrap text-foreground font-normal',
+    [UI.day_secondary_label]:
+      'web:whitespace-nowrap text-[10px] text-muted-foreground',
+    [UI.week_number]: '',
+    [UI.week_number_label]: 'text-xs text-muted-foreground',
     [UI.months]: '',
     [UI.month]: 'group rounded-md web:hover:bg-accent active:bg-accent',
     [UI.month_label]:
@@ -26,11 +30,17 @@ export function useDefaultClassNames(): ClassNames {
     [UI.range_fill]: 'bg-accent',
     [UI.range_fill_weekstart]: '',
     [UI.range_fill_weekend]: '',
+    [UI.range_preview_tooltip]:
+      'rounded-md border border-border bg-background px-2 py-1',
+    [UI.range_preview_tooltip_label]: 'text-xs text-foreground',
     [UI.header]: 'mb-1',
     [UI.month_selector]: '',
     [UI.month_selector_label]: 'font-semibold text-lg text-foreground',
     [UI.year_selector]: '',
     [UI.year_selector_label]: 'font-semibold text-lg text-foreground',
+    [UI.secondary_selector_label]: 'text-sm text-muted-foreground',
+    [UI.calendar_selector]: 'rounded-md bg-muted px-1.5',
+    [UI.calendar_selector_label]: 'text-sm text-muted-foreground',
     [UI.time_selector]: '',
     [UI.time_selector_label]: 'font-semibold text-lg text-foreground',
     [UI.weekdays]: '',
@@ -42,6 +52,15 @@ export function useDefaultClassNames(): ClassNames {
     [UI.button_prev_image]: '',
     [UI.time_label]: 'text-foreground text-2xl font-medium',
     [UI.time_selected_indicator]: 'bg-muted rounded-lg',
+    [UI.time_toggle]: 'rounded-md px-2 py-1',
+    [UI.time_toggle_label]: 'text-base text-muted-foreground',
+    [UI.time_toggle_active]: 'bg-muted',
+    [UI.time_toggle_active_label]: 'text-foreground font-medium',
+    [UI.presets]: 'gap-1',
+    [UI.preset]: 'rounded-md px-2 py-1 web:hover:bg-accent',
+    [UI.preset_label]: 'text-sm text-foreground',
+    [UI.active_preset]: 'bg-primary web:hover:bg-primary',
+    [UI.active_preset_label]: 'text-primary-foreground',
 
     [SelectionState.range_end]: '',
     [SelectionState.range_end_label]: 'text-primary-foreground',
@@ -49,6 +68,8 @@ export function useDefaultClassNames(): ClassNames {
     [SelectionState.range_middle_label]: 'text-accent-foreground',
     [SelectionState.range_start]: '',
     [SelectionState.range_start_label]: 'text-primary-foreground',
+    [SelectionState.range_preview]: 'bg-accent',
+    [SelectionState.range_preview_label]: 'text-accent-foreground',
     [SelectionState.selected]:
       'group bg-primary web:hover:bg-primary web:hover:opacity-90 active:opacity-90',
     [SelectionState.selected_label]: 'text-primary-foreground',
@@ -61,16 +82,26 @@ export function useDefaultClassNames(): ClassNames {
     [DayFlag.outside_label]: 'text-muted-foreground',
     [DayFlag.today]: 'bg-accent',
     [DayFlag.today_label]: 'text-accent-foreground',
+    [DayFlag.check_in_only]: '',
+    [DayFlag.check_in_only_label]: '',
+    [DayFlag.check_out_only]: '',
+    [DayFlag.check_out_only_label]: 'line-through',
+    [DayFlag.range_blocked]: '',
+    [DayFlag.range_blocked_label]: 'text-muted-foreground opacity-25',
 
     [MonthState.selected_month]:
       'group bg-primary web:hover:bg-primary web:hover:opacity-90 active:opacity-90',
     [MonthState.selected_month_label]: 'text-primary-foreground',
+    [MonthState.range_month]: 'bg-accent',
+    [MonthState.range_month_label]: 'text-accent-foreground',
 
     [YearState.selected_year]:
       'group bg-primary web:hover:bg-primary web:hover:opacity-90 active:opacity-90',
     [YearState.selected_year_label]: 'text-primary-foreground',
     [YearState.active_year]: 'bg-accent',
     [YearState.active_year_label]: 'text-accent-foreground',
+    [YearState.range_year]: 'bg-accent',
+    [YearState.range_year_label]: 'text-accent-foreground',
   };
 
   return classNames;
@@ -85,6 +116,15 @@ export function useDefaultStyles(scheme?: 'dark' | 'light'): Styles {
     [UI.day_cell]: { padding: 1.5 },
     [UI.day]: { borderRadius: 5 },
     [UI.day_label]: { color: COLORS[theme].accentForeground },
+    [UI.day_secondary_label]: {
+      fontSize: 10,
+      color: COLORS[theme].mutedForeground,
+    },
+    [UI.week_number]: {},
+    [UI.week_number_label]: {
+      fontSize: 11,
+      color: COLORS[theme].mutedForeground,
+    },
     [UI.months]: {},
     [UI.month]: {
       borderColor: COLORS[theme].border,
@@ -102,6 +142,18 @@ export function useDefaultStyles(scheme?: 'dark' | 'light'): Styles {
     [UI.range_fill]: { backgroundColor: COLORS[theme].accent },
     [UI.range_fill_weekstart]: {},
     [UI.range_fill_weekend]: {},
+    [UI.range_preview_tooltip]: {
+      borderColor: COLORS[theme].border,
+      borderWidth: 1,
+      borderRadius: 5,
+      backgroundColor: COLORS[theme].background,
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+    },
+    [UI.range_preview_tooltip_label]: {
+      fontSize: 12,
+      color: COLORS[theme].foreground,
+    },
     [UI.header]: { marginBottom: 5 },
     [UI.month_selector]: {},
     [UI.month_selector_label]: {
@@ -115,6 +167,19 @@ export function useDefaultStyles(scheme?: 'dark' | 'light'): Styles {
       fontWeight: '500',
       color: COLORS[theme].foreground,
     },
+    [UI.secondary_selector_label]: {
+      fontSize: 12,
+      color: COLORS[theme].mutedForeground,
+    },
+    [UI.calendar_selector]: {
+      borderRadius: 5,
+      paddingHorizontal: 6,
+      backgroundColor: COLORS[theme].muted,
+    },
+    [UI.calendar_selector_label]: {
+      fontSize: 12,
+      color: COLORS[theme].mutedForeground,
+    },
     [UI.time_selector]: {},
     [UI.time_selector_label]: {
       fontSize: 16,
@@ -141,6 +206,40 @@ export function useDefaultStyles(scheme?: 'dark' | 'light'): Styles {
       backgroundColor: COLORS[theme].muted,
       borderRadius: 5,
     },
+    [UI.time_toggle]: {
+      borderRadius: 5,
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+    },
+    [UI.time_toggle_label]: {
+      fontSize: 14,
+      color: COLORS[theme].mutedForeground,
+    },
+    [UI.time_toggle_active]: {
+      backgroundColor: COLORS[theme].muted,
+    },
+    [UI.time_toggle_active_label]: {
+      fontWeight: '500',
+      color: COLORS[theme].foreground,
+    },
+    [UI.presets]: {
+      gap: 4,
+    },
+    [UI.preset]: {
+      borderRadius: 5,
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+    },
+    [UI.preset_label]: {
+      fontSize: 14,
+      color: COLORS[theme].foreground,
+    },
+    [UI.active_preset]: {
+      backgroundColor: COLORS[theme].primary,
+    },
+    [UI.active_preset_label]: {
+      color: COLORS[theme].primaryForeground,
+    },
 
     [SelectionState.range_end]: {},
     [SelectionState.range_end_label]: {
@@ -154,6 +253,10 @@ export function useDefaultStyles(scheme?: 'dark' | 'light'): Styles {
     [SelectionState.range_start_label]: {
       color: COLORS[theme].primaryForeground,
     },
+    [SelectionState.range_preview]: { backgroundColor: COLORS[theme].accent },
+    [SelectionState.range_preview_label]: {
+      color: COLORS[theme].accentForeground,
+    },
     [SelectionState.selected]: {
       backgroundColor: COLORS[theme].primary,
     },
@@ -172,6 +275,15 @@ export function useDefaultStyles(scheme?: 'dark' | 'light'): Styles {
     [DayFlag.outside_label]: { color: COLORS[theme].mutedForeground },
     [DayFlag.today]: { backgroundColor: COLORS[theme].accent },
     [DayFlag.today_label]: { color: COLORS[theme].accentForeground },
+    [DayFlag.check_in_only]: {},
+    [DayFlag.check_in_only_label]: {},
+    [DayFlag.check_out_only]: {},
+    [DayFlag.check_out_only_label]: { textDecorationLine: 'line-through' },
+    [DayFlag.range_blocked]: {},
+    [DayFlag.range_blocked_label]: {
+      color: COLORS[theme].mutedForeground,
+      opacity: 0.25,
+    },
 
     [MonthState.selected_month]: {
       backgroundColor: COLORS[theme].primary,
@@ -180,6 +292,13 @@ export function useDefaultStyles(scheme?: 'dark' | 'light'): Styles {
     [MonthState.selected_month_label]: {
       color: COLORS[theme].primaryForeground,
     },
+    [MonthState.range_month]: {
+      backgroundColor: COLORS[theme].accent,
+      borderColor: COLORS[theme].accent,
+    },
+    [MonthState.range_month_label]: {
+      color: COLORS[theme].accentForeground,
+    },
 
     [YearState.selected_year]: {
       backgroundColor: COLORS[theme].primary,
@@ -195,6 +314,13 @@ export function useDefaultStyles(scheme?: 'dark' | 'light'): Styles {
     [YearState.active_year_label]: {
       color: COLORS[theme].accentForeground,
     },
+    [YearState.range_year]: {
+      backgroundColor: COLORS[theme].accent,
+      borderColor: COLORS[theme].accent,
+    },
+    [YearState.range_year_label]: {
+      color: COLORS[theme].accentForeground,
+    },
   };
 
   return styles;
@@ -12,21 +12,118 @@ import {
 
 export type DateType = string | number | Dayjs | Date | null | undefined;
 
-export type CalendarType = 'gregory' | 'jalali' | 'islamic';
+export type BuiltInCalendarType =
+  | 'gregory'
+  | 'jalali'
+  | 'islamic'
+  | 'islamic-civil'
+  | 'islamic-tbla'
+  | 'hebrew'
+  | 'buddhist'
+  | 'chinese'
+  | 'ethiopic'
+  | 'coptic';
 
-export type CalendarMode = 'single' | 'range' | 'multiple';
+/**
+ * A built-in calendar, or the name of a calendar added with
+ * `registerCalendar`.
+ */
+export type CalendarType = BuiltInCalendarType | (string & {});
+
+export type CalendarMonthNames =
+  | string[]
+  | ((locale: string, year: number) => string[]);
+
+export type RegisterCalendarOptions = {
+  /**
+   * Month names, or a function returning them for a locale and year. Falls
+   * back to month numbers.
+   */
+  monthNames?: CalendarMonthNames;
+  /**
+   * Short month names, defaults to `monthNames`.
+   */
+  monthShortNames?: CalendarMonthNames;
+  /**
+   * Number of days in a 0-based month, overrides the system's `daysInMonth`.
+   */
+  daysInMonth?: (year: number, month: number) => number;
+  /**
+   * Number of months in a year, overrides the system's `monthsInYear`.
+   * Defaults to 12.
+   */
+  monthsInYear?: (year: number) => number;
+};
+
+/**
+ * Days added to the Umm al-Qura Hijri date to follow local moon sighting:
+ * a single number for every month, or per Hijri month keyed by year and
+ * 1-based month, e.g. `{ '1446-09': 1 }`.
+ */
+export type HijriAdjustment = number | Record<string, number>;
+
+/**
+ * Fiscal year layout shown over the Gregorian calendar. Without a
+ * `weekPattern` every period is a calendar month; with one, the year is made
+ * of whole weeks split into 4 quarters of 3 periods (retail calendars).
+ */
+export type FiscalCalendar = {
+  /** Month the fiscal year starts in, 0 for January. Defaults to 3 (April). */
+  startMonth?: number;
+  /** Weeks in each period of a quarter, e.g. `'4-4-5'`. */
+  weekPattern?: '4-4-5' | '4-5-4' | '5-4-4';
+  /**
+   * Day retail years start on, 0 for Sunday. Each year starts on this day
+   * nearest to the 1st of `startMonth`. Defaults to 0.
+   */
+  weekStartsOn?: number;
+  /** Name the fiscal year after the year it starts or ends in. Defaults to 'end'. */
+  yearNaming?: 'start' | 'end';
+};
+
+export type FiscalYear = {
+  /** Fiscal year number, e.g. 2026 for April 2025 – March 2026. */
+  year: number;
+  startDate: Dayjs;
+  endDate: Dayjs;
+};
+
+export type FiscalPeriod = FiscalYear & {
+  /** 1-based period within the fiscal year. */
+  period: number;
+};
+
+export type CalendarMode =
+  | 'single'
+  | 'range'
+  | 'multiple'
+  | 'week'
+  | 'month'
+  | 'year'
+  | 'multi-range';
 
 export type NavigationPosition = 'around' | 'right' | 'left';
 
+/** Whether a range counts its days, or the nights from check-in to check-out */
+export type RangeSemantics = 'days' | 'nights';
+
+export type FixedRangeLength = {
+  amount: number;
+  unit: 'day' | 'week' | 'month' | 'year';
+};
+
 export type WeekdayFormat = 'min' | 'short' | 'full';
 
 export type MonthFormat = 'short' | 'full';
 
+export type YearFormat = 'numeric' | 'era';
+
 export type LocalState = {
   date: DateType;
   startDate: DateType;
   endDate: DateType;
   dates?: DateType[];
+  ranges?: DateRange[];
   calendarView: CalendarViews;
   currentDate: DateType; // used for latest state of calendar based on Month and Year
   currentYear: number;
@@ -63,6 +160,18 @@ export type CalendarDay = {
   inMiddle: boolean;
   rangeStart: boolean;
   rangeEnd: boolean;
+  /** Between the start date and the hovered day while the range is pending. */
+  inPreview?: boolean;
+  /** Available for check-in but not check-out, as the night before is disabled (nights semantics). */
+  isCheckInOnly?: boolean;
+  /** Disabled, but available for check-out as the night before is not (nights semantics). */
+  isCheckOutOnly?: boolean;
+  /** Past a disabled day from the pending start, with `disallowDisabledInRange`, or starting a `fixedRangeLength` span that hits one. */
+  isRangeBlocked?: boolean;
+  /** Day of the month in `secondaryCalendar`, when set. */
+  secondaryNumber?: number;
+  /** `secondaryNumber` formatted with the picker's numerals. */
+  secondaryText?: string;
 };
 
 export type CalendarWeek = {
@@ -81,6 +190,28 @@ export type CalendarMonth = {
     short: string;
   };
   isSelected: boolean;
+  /** Between the start and end of a range in month mode. */
+  inRange?: boolean;
+  rangeStart?: boolean;
+  rangeEnd?: boolean;
+};
+
+export type CalendarWeekNumber = {
+  number: number;
+  text: string;
+};
+
+export type RangePreview = {
+  /** Days from the start date to the hovered day, both included. */
+  days: number;
+  /** Nights from the start date to the hovered day. */
+  nights: number;
+  /** Whether `min` and `max` count days or nights. */
+  rangeSemantics: RangeSemantics;
+  /** The days of the range, or its nights with `rangeSemantics="nights"`, formatted with the picker's numerals. */
+  text: string;
+  /** Whether `min` or `max` would reject the range. */
+  isInvalid: boolean;
 };
 
 export type CalendarYear = {
@@ -88,6 +219,34 @@ export type CalendarYear = {
   text: string;
   isSelected: boolean;
   isActivated: boolean;
+  /** Between the start and end of a range in year mode. */
+  inRange?: boolean;
+  rangeStart?: boolean;
+  rangeEnd?: boolean;
+};
+
+export type DateRange = {
+  startDate: DateType;
+  /** Undefined while the range is being picked. */
+  endDate: DateType;
+};
+
+export type RangePresetOptions = {
+  calendar: CalendarType;
+  timeZone?: string;
+  firstDayOfWeek: number;
+};
+
+export type RangePreset = {
+  label: string;
+  /**
+   * Range of the preset for `today`, given in the picker's calendar and time
+   * zone. Return undefined for a custom selection, which clears the range.
+   */
+  getRange: (
+    today: Dayjs,
+    options: RangePresetOptions
+  ) => DateRange | undefined;
 };
 
 export type SingleChange = (params: { date: DateType }) => void;
@@ -97,17 +256,66 @@ export type RangeChange = (params: {
   endDate: DateType;
 }) => void;
 
+export type WeekChange = (params: {
+  startDate: DateType;
+  endDate: DateType;
+  /** Week of the year, ISO-8601 when weeks start on Monday. */
+  weekNumber: number;
+  /** Year the week belongs to, which may differ from its first day's year. */
+  year: number;
+}) => void;
+
 export type MultiChange = (params: {
   dates: DateType[];
   datePressed?: DateType;
   change: 'added' | 'removed' | 'updated';
 }) => void;
 
+export type MultiRangeChange = (params: { ranges: DateRange[] }) => void;
+
+export type SelectionRejectedReason =
+  | 'max-count'
+  | 'min-length'
+  | 'max-length'
+  | 'disabled'
+  | 'out-of-bounds';
+
+export type SelectionRejected = (params: {
+  /** The pressed day, or the disabled day a range would span. */
+  date: DateType;
+  reason: SelectionRejectedReason;
+}) => void;
+
+export type InvalidRangeSelect = (params: {
+  startDate: DateType;
+  endDate: DateType;
+  /** The first disabled day within the range. */
+  disabledDate: DateType;
+}) => void;
+
 export type EventDayPress = (params: {
   date: DateType;
   dayEvents: CalendarEvent[];
 }) => void;
 
+export type CalendarWarning =
+  | {
+      /** Navigation was blocked past the years the calendar can convert. */
+      type: 'out-of-range';
+      calendar: CalendarType;
+      /** The requested year, in the calendar's years. */
+      year: number;
+      minYear: number;
+      maxYear: number;
+    }
+  | {
+      /** Another picker holds a different `hijriAdjustment`, so the Hijri dates wait for it to be released. */
+      type: 'hijri-adjustment-conflict';
+      calendar: 'islamic';
+      hijriAdjustment: HijriAdjustment;
+      activeHijriAdjustment: HijriAdjustment;
+    };
+
 export type ClassNames = Partial<{
   [key in
     | UI
@@ -137,6 +345,10 @@ export type CalendarComponents = Partial<{
   Year: (year: CalendarYear) => React.ReactNode;
   /** The component containing the weekday in the header */
   Weekday: (weekday: CalendarWeek) => React.ReactNode;
+  /** The component containing the week number in the days grid */
+  WeekNumber: (week: CalendarWeekNumber) => React.ReactNode;
+  /** The content of the range preview tooltip over the hovered day */
+  RangePreviewTooltip: (preview: RangePreview) => React.ReactNode;
   /** The previous month/year button icon in the header */
   IconPrev: React.ReactNode;
   /** The next month button/year icon in the header */
@@ -145,7 +357,15 @@ export type CalendarComponents = Partial<{
 
 export interface DatePickerBaseProps {
   mode?: CalendarMode;
+  /** Select a range of months or years in month and year modes */
+  range?: boolean;
   calendar?: CalendarType;
+  /** Calendars the header switcher cycles through, shown with two or more */
+  calendars?: CalendarType[];
+  /** Callback fired when the header switcher changes the calendar */
+  onCalendarChange?: (calendar: CalendarType) => void;
+  hijriAdjustment?: HijriAdjustment;
+  secondaryCalendar?: CalendarType;
   locale?: string;
   numerals?: Numerals;
   timeZone?: string;
@@ -153,9 +373,31 @@ export interface DatePickerBaseProps {
   startDate?: DateType;
   endDate?: DateType;
   dates?: DateType[];
+  ranges?: DateRange[];
+  /** Range presets shown next to the calendar in range mode */
+  presets?: RangePreset[];
+  /** Select a range by dragging across the days grid in range mode */
+  dragToSelect?: boolean;
+  /** Show the number of days of the hovered range preview in a tooltip (default: false) */
+  displayRangePreviewTooltip?: boolean;
+  /** Count ranges in days or nights, with check-out allowed on disabled days for nights (default: nights, without check-out on disabled days) */
+  rangeSemantics?: RangeSemantics;
+  /** Keep ranges from spanning disabled days in range mode (default: false) */
+  disallowDisabledInRange?: boolean;
+  /** Select a range of a fixed length from the pressed day in range mode */
+  fixedRangeLength?: FixedRangeLength;
+  /** Callback fired instead of `onChange` when a range would span a disabled day */
+  onInvalidRange?: InvalidRangeSelect;
+  /** Callback fired when a selection is ignored or reset, with the reason why */
+  onSelectionRejected?: SelectionRejected;
   min?: number;
   max?: number;
-  onChange?: SingleChange | RangeChange | MultiChange;
+  onChange?:
+    | SingleChange
+    | RangeChange
+    | MultiChange
+    | WeekChange
+    | MultiRangeChange;
   startYear?: number;
   endYear?: number;
   minDate?: DateType;
@@ -164,6 +406,8 @@ export interface DatePickerBaseProps {
   disabledDates?: DateType[] | ((date: DateType) => boolean);
   firstDayOfWeek?: number;
   showOutsideDays?: boolean;
+  /** Show the week number of each row in a leading column of the days grid */
+  showWeekNumbers?: boolean;
   timePicker?: boolean;
   timePickerOptions?: TimePickerOptions;
   use12Hours?: boolean;
@@ -178,6 +422,10 @@ export interface DatePickerBaseProps {
   weekdaysFormat?: WeekdayFormat;
   monthsFormat?: MonthFormat;
   monthCaptionFormat?: MonthFormat;
+  /** Show Gregorian years as Japanese imperial era years (e.g. 令和7年) */
+  yearFormat?: YearFormat;
+  /** Show fiscal periods and years in the months and years grids (Gregorian only) */
+  fiscalCalendar?: FiscalCalendar;
   multiRangeMode?: boolean;
   hideHeader?: boolean;
   hideWeekdays?: boolean;
@@ -197,6 +445,8 @@ export interface DatePickerBaseProps {
   year?: number;
   onMonthChange?: (month: number) => void;
   onYearChange?: (year: number) => void;
+  /** Callback fired when navigation is blocked instead of rendering an unsupported month */
+  onWarning?: (warning: CalendarWarning) => void;
 }
 
 export interface TimePickerOptions {
@@ -216,7 +466,8 @@ export type Numerals =
   | 'tamldec'
   | 'telu'
   | 'knda'
-  | 'mlym';
+  | 'mlym'
+  | 'hebr';
 
 export type PickerOption = {
   value: number | string;
@@ -7,6 +7,12 @@ export enum UI {
   day = 'day',
   /** The label of the day cell in the days grid. */
   day_label = 'day_label',
+  /** The label of the secondary calendar day under the day label. */
+  day_secondary_label = 'day_secondary_label',
+  /** The cell with the week number in the days grid. */
+  week_number = 'week_number',
+  /** The label of the week number in the days grid. */
+  week_number_label = 'week_number_label',
   /** The container of the displayed months. */
   months = 'months',
   /** Wrapper of the month cell in the months grid. */
@@ -25,6 +31,10 @@ export enum UI {
   range_fill_weekstart = 'range_fill_weekstart',
   /** The background for the end days of each week within the selected range. */
   range_fill_weekend = 'range_fill_weekend',
+  /** The tooltip with the number of days over the hovered day of a range preview. */
+  range_preview_tooltip = 'range_preview_tooltip',
+  /** The label of the range preview tooltip. */
+  range_preview_tooltip_label = 'range_preview_tooltip_label',
   /** The calendar header with the previous and next buttons and selectors. */
   header = 'header',
   /** The cell containing the month selector in the header. */
@@ -35,6 +45,12 @@ export enum UI {
   year_selector = 'year_selector',
   /** The label of the year selector cell in the header. */
   year_selector_label = 'year_selector_label',
+  /** The secondary calendar month and year span under the selectors in the header. */
+  secondary_selector_label = 'secondary_selector_label',
+  /** The cell containing the calendar switcher in the header. */
+  calendar_selector = 'calendar_selector',
+  /** The label of the calendar switcher cell in the header. */
+  calendar_selector_label = 'calendar_selector_label',
   /** The cell containing the time selector in the header. */
   time_selector = 'time_selector',
   /** The label of the time selector cell in the header. */
@@ -57,6 +73,24 @@ export enum UI {
   time_label = 'time_label',
   /** The indicator of the selected hour and minutes. */
   time_selected_indicator = 'time_selected_indicator',
+  /** The start or end time toggle above the time picker in range mode. */
+  time_toggle = 'time_toggle',
+  /** The label of the start or end time toggle. */
+  time_toggle_label = 'time_toggle_label',
+  /** The start or end time toggle being edited. */
+  time_toggle_active = 'time_toggle_active',
+  /** The label of the start or end time toggle being edited. */
+  time_toggle_active_label = 'time_toggle_active_label',
+  /** The container of the range presets next to the calendar. */
+  presets = 'presets',
+  /** The range preset in the presets list. */
+  preset = 'preset',
+  /** The label of the range preset. */
+  preset_label = 'preset_label',
+  /** The range preset matching the selected range. */
+  active_preset = 'active_preset',
+  /** The label of the range preset matching the selected range. */
+  active_preset_label = 'active_preset_label',
   /** The container row holding event dots below the day label. */
   event_dots_container = 'event_dots_container',
   /** A single colored event dot. */
@@ -76,6 +110,10 @@ export enum SelectionState {
   range_start = 'range_start',
   /** The label of the start range cell within a range. */
   range_start_label = 'range_start_label',
+  /** The day is within the preview of a pending range while hovering. */
+  range_preview = 'range_preview',
+  /** The label of the day within a range preview. */
+  range_preview_label = 'range_preview_label',
   /** The day is selected. */
   selected = 'selected',
   /** The label of the selected day. */
@@ -100,6 +138,18 @@ export enum DayFlag {
   today = 'today',
   /** The label of the today. */
   today_label = 'today_label',
+  /** The day is available for check-in only (nights semantics). */
+  check_in_only = 'check_in_only',
+  /** The label of the check-in only day. */
+  check_in_only_label = 'check_in_only_label',
+  /** The day is available for check-out only (nights semantics). */
+  check_out_only = 'check_out_only',
+  /** The label of the check-out only day. */
+  check_out_only_label = 'check_out_only_label',
+  /** The day can't end the pending range, or start a fixed-length one, as a disabled day lies between. */
+  range_blocked = 'range_blocked',
+  /** The label of the day blocked from the pending range. */
+  range_blocked_label = 'range_blocked_label',
 }
 
 export enum MonthState {
@@ -107,6 +157,10 @@ export enum MonthState {
   selected_month = 'selected_month',
   /** The label of the selected month. */
   selected_month_label = 'selected_month_label',
+  /** The month is between the start and end of a selected range. */
+  range_month = 'range_month',
+  /** The label of the month within a range. */
+  range_month_label = 'range_month_label',
 }
 
 export enum YearState {
@@ -118,4 +172,8 @@ export enum YearState {
   active_year = 'active_year',
   /** The label of the activated year. */
   active_year_label = 'active_year_label',
+  /** The year is between the start and end of a selected range. */
+  range_year = 'range_year',
+  /** The label of the year within a range. */
+  range_year_label = 'range_year_label',
 }
@@ -6,17 +6,26 @@ import type {
   CalendarWeek,
   Numerals,
   CalendarType,
+  BuiltInCalendarType,
+  DateRange,
+  CalendarMonthNames,
+  RangeSemantics,
+  SelectionRejectedReason,
+  FixedRangeLength,
 } from './types';
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
 import { useRef } from 'react';
 import { isEqual } from 'lodash';
-import { numeralSystems } from './numerals';
+import { formatHebrewNumeral, numeralSystems } from './numerals';
 import umalqura from '@umalqura/core';
+import type { CalendarSystem } from '@calidy/dayjs-calendarsystems';
+import { getCalendarOptions, normalizeMonth } from './calendar-systems';
 
 export const CALENDAR_FORMAT = 'YYYY-MM-DD HH:mm';
 export const DATE_FORMAT = 'YYYY-MM-DD';
 export const YEAR_PAGE_SIZE = 12;
+export const BUDDHIST_ERA_OFFSET = 543;
 export const VALID_JALALI_LOCALES = new Set(['fa', 'en']);
 export const JALALI_MONTHS = {
   en: [
@@ -49,12 +58,395 @@ export const JALALI_MONTHS = {
   ],
 };
 
+export const HEBREW_MONTHS = {
+  en: [
+    'Tishrei',
+    'Heshvan',
+    'Kislev',
+    'Tevet',
+    'Shevat',
+    'Adar',
+    'Nisan',
+    'Iyar',
+    'Sivan',
+    'Tammuz',
+    'Av',
+    'Elul',
+  ],
+  he: [
+    'תשרי',
+    'חשוון',
+    'כסלו',
+    'טבת',
+    'שבט',
+    'אדר',
+    'ניסן',
+    'אייר',
+    'סיוון',
+    'תמוז',
+    'אב',
+    'אלול',
+  ],
+};
+export const HEBREW_LEAP_MONTHS = {
+  en: ['Adar I', 'Adar II'],
+  he: ['אדר א׳', 'אדר ב׳'],
+};
+export const CHINESE_MONTHS = {
+  en: [
+    'Month 1',
+    'Month 2',
+    'Month 3',
+    'Month 4',
+    'Month 5',
+    'Month 6',
+    'Month 7',
+    'Month 8',
+    'Month 9',
+    'Month 10',
+    'Month 11',
+    'Month 12',
+  ],
+  zh: [
+    '正月',
+    '二月',
+    '三月',
+    '四月',
+    '五月',
+    '六月',
+    '七月',
+    '八月',
+    '九月',
+    '十月',
+    '冬月',
+    '腊月',
+  ],
+};
+export const ETHIOPIC_MONTHS = {
+  en: [
+    'Meskerem',
+    'Tekemt',
+    'Hedar',
+    'Tahsas',
+    'Ter',
+    'Yekatit',
+    'Megabit',
+    'Miazia',
+    'Genbot',
+    'Sene',
+    'Hamle',
+    'Nehasse',
+    'Pagumen',
+  ],
+  am: [
+    'መስከረም',
+    'ጥቅምት',
+    'ኅዳር',
+    'ታኅሣሥ',
+    'ጥር',
+    'የካቲት',
+    'መጋቢት',
+    'ሚያዝያ',
+    'ግንቦት',
+    'ሰኔ',
+    'ሐምሌ',
+    'ነሐሴ',
+    'ጳጉሜን',
+  ],
+};
+export const COPTIC_MONTHS = {
+  en: [
+    'Tout',
+    'Baba',
+    'Hator',
+    'Kiahk',
+    'Toba',
+    'Amshir',
+    'Baramhat',
+    'Baramouda',
+    'Bashans',
+    'Paona',
+    'Epep',
+    'Mesra',
+    'Nasie',
+  ],
+  ar: [
+    'توت',
+    'بابه',
+    'هاتور',
+    'كيهك',
+    'طوبة',
+    'أمشير',
+    'برمهات',
+    'برمودة',
+    'بشنس',
+    'بؤونة',
+    'أبيب',
+    'مسرى',
+    'نسيئ',
+  ],
+};
+export const CHINESE_LEAP_MONTH_PREFIX = { en: 'Leap ', zh: '闰' };
+export const HEAVENLY_STEMS = {
+  en: ['jia', 'yi', 'bing', 'ding', 'wu', 'ji', 'geng', 'xin', 'ren', 'gui'],
+  zh: ['甲', '乙', '丙', '丁', '戊', '己', '庚', '辛', '壬', '癸'],
+};
+export const EARTHLY_BRANCHES = {
+  en: [
+    'zi',
+    'chou',
+    'yin',
+    'mao',
+    'chen',
+    'si',
+    'wu',
+    'wei',
+    'shen',
+    'you',
+    'xu',
+    'hai',
+  ],
+  zh: ['子', '丑', '寅', '卯', '辰', '巳', '午', '未', '申', '酉', '戌', '亥'],
+};
+
+/* Japanese imperial eras since the Gregorian calendar was adopted, with the
+ * Gregorian day each began (0-based month). */
+export const JAPANESE_ERAS = [
+  { start: [1868, 8, 8], name: { en: 'Meiji', ja: '明治' } },
+  { start: [1912, 6, 30], name: { en: 'Taishō', ja: '大正' } },
+  { start: [1926, 11, 25], name: { en: 'Shōwa', ja: '昭和' } },
+  { start: [1989, 0, 8], name: { en: 'Heisei', ja: '平成' } },
+  { start: [2019, 4, 1], name: { en: 'Reiwa', ja: '令和' } },
+] as const;
+
+/**
+ * Format the Japanese era year of a Gregorian date, e.g. 令和7年 for the
+ * `ja` locale (the first year of an era is 元年) or Reiwa 7 otherwise.
+ *
+ * @param date - Gregorian date
+ * @param locale - locale
+ * @param numerals - numeral system of the year
+ *
+ * @returns the era year, or undefined before the Meiji era
+ */
+export const getJapaneseEraYear = (
+  date: DateType,
+  locale: string,
+  numerals: Numerals = 'latn'
+): string | undefined => {
+  const day = dayjs(date);
+  const dayKey = day.year() * 10000 + day.month() * 100 + day.get('date');
+  const era = [...JAPANESE_ERAS]
+    .reverse()
+    .find(({ start: [y, m, d] }) => dayKey >= y * 10000 + m * 100 + d);
+  if (!era) {
+    return undefined;
+  }
+
+  const year = day.year() - era.start[0] + 1;
+  if (locale.startsWith('ja')) {
+    return `${era.name.ja}${year === 1 ? '元' : formatNumber(year, numerals)}年`;
+  }
+  return `${era.name.en} ${formatNumber(year, numerals)}`;
+};
+
+/**
+ * Format the Japanese era years between two Gregorian dates, joining both
+ * when an era begins in between, e.g. 平成31年/令和元年 for 2019.
+ *
+ * @returns the era years, or undefined when both dates are before Meiji
+ */
+export const getJapaneseEraYearSpan = (
+  startDate: DateType,
+  endDate: DateType,
+  locale: string,
+  numerals: Numerals = 'latn'
+): string | undefined => {
+  const start = getJapaneseEraYear(startDate, locale, numerals);
+  const end = getJapaneseEraYear(endDate, locale, numerals);
+  if (!start || start === end) {
+    return end;
+  }
+  return `${start}/${end}`;
+};
+
+/* Labels of the header calendar switcher where `Intl.DisplayNames` can't
+ * name the calendar. Calendars added with `registerCalendar` are labelled
+ * with their name. */
+export const CALENDAR_NAMES: Record<BuiltInCalendarType, string> = {
+  'gregory': 'Gregorian',
+  'jalali': 'Jalali',
+  'islamic': 'Hijri',
+  'islamic-civil': 'Hijri (civil)',
+  'islamic-tbla': 'Hijri (tabular)',
+  'hebrew': 'Hebrew',
+  'buddhist': 'Buddhist',
+  'chinese': 'Chinese',
+  'ethiopic': 'Ethiopic',
+  'coptic': 'Coptic',
+};
+
+// Unicode calendar identifiers of the calendars named differently here
+const INTL_CALENDAR_CODES: Partial<Record<BuiltInCalendarType, string>> = {
+  jalali: 'persian',
+};
+
+/**
+ * Get the name of a calendar in a locale.
+ *
+ * @param {CalendarType} calendar - calendar to name
+ * @param {string} [locale] - locale to name the calendar in
+ *
+ * @returns the localized name, or the English one where Intl has none
+ */
+export const getCalendarName = (
+  calendar: CalendarType,
+  locale: string = 'en'
+): string => {
+  try {
+    const name = new Intl.DisplayNames(locale, {
+      type: 'calendar',
+      fallback: 'none',
+    }).of(INTL_CALENDAR_CODES[calendar as BuiltInCalendarType] ?? calendar);
+    if (name) {
+      return name;
+    }
+  } catch {
+    // Engines without Intl.DisplayNames, or names that aren't identifiers
+  }
+  return CALENDAR_NAMES[calendar as BuiltInCalendarType] ?? calendar;
+};
+
+/* Calendars backed by a calidy calendar system that go through the generic
+ * calendar-system helpers below, as do calendars added at runtime with
+ * `registerCalendar`. The Islamic calendar keeps its dedicated
+ * @umalqura/core code paths. */
+export const CALENDAR_SYSTEMS = new Set<CalendarType>([
+  'islamic-civil',
+  'islamic-tbla',
+  'hebrew',
+  'chinese',
+  'ethiopic',
+  'coptic',
+]);
+
+export const isCalendarSystem = (calendar?: CalendarType): boolean =>
+  !!calendar &&
+  (CALENDAR_SYSTEMS.has(calendar) || !!getCalendarOptions(calendar));
+
+/**
+ * Get the offset between the displayed year and the Gregorian year of a
+ * calendar that shares the Gregorian days and months grid.
+ *
+ * @param {CalendarType} [calendar] - Optional calendar type
+ *
+ * @returns 543 for the Thai Buddhist era, 0 otherwise
+ */
+export const getYearOffset = (calendar?: CalendarType): number =>
+  calendar === 'buddhist' ? BUDDHIST_ERA_OFFSET : 0;
+
+/**
+ * Get the years a calendar can convert, in the calendar's own years. The
+ * Umm al-Qura tables of @umalqura/core stop at 1318–1500 AH; other
+ * calendars are unbounded.
+ *
+ * @param {CalendarType} [calendar] - Optional calendar type
+ *
+ * @returns the supported years, or undefined when any year is supported
+ */
+export const getSupportedYearRange = (
+  calendar?: CalendarType
+): { minYear: number; maxYear: number } | undefined =>
+  calendar === 'islamic'
+    ? {
+        minYear: umalqura.$.minCalendarYear,
+        maxYear: umalqura.$.maxCalendarYear,
+      }
+    : undefined;
+
+export const isYearSupported = (
+  year: number,
+  calendar?: CalendarType
+): boolean => {
+  const range = getSupportedYearRange(calendar);
+  return !range || (year >= range.minYear && year <= range.maxYear);
+};
+
 export const isValidJalaliLocale = (locale: string): boolean =>
   VALID_JALALI_LOCALES.has(locale);
 
 export const getJalaliMonths = (locale: string) =>
   JALALI_MONTHS[locale as 'fa' | 'en'] || JALALI_MONTHS.en;
 
+/**
+ * Get Hebrew month names in civil order (Tishrei first). Leap years have 13
+ * months, with Adar replaced by Adar I and Adar II.
+ *
+ * @param locale - locale, falls back to English transliteration
+ * @param isLeapYear - whether the Hebrew year has 13 months
+ *
+ * @returns month names
+ */
+export const getHebrewMonths = (locale: string, isLeapYear: boolean) => {
+  const key = locale === 'he' ? 'he' : 'en';
+  const months = HEBREW_MONTHS[key];
+  if (!isLeapYear) {
+    return months;
+  }
+  return [
+    ...months.slice(0, 5),
+    ...HEBREW_LEAP_MONTHS[key],
+    ...months.slice(6),
+  ];
+};
+
+/**
+ * Get Chinese month names in year order. Leap years have 13 months, with the
+ * leap month right after the month it repeats.
+ *
+ * @param locale - locale, Chinese for `zh*` locales and English otherwise
+ * @param leapMonth - the month (1–12) the leap month repeats, 0 for none
+ *
+ * @returns month names
+ */
+export const getChineseMonths = (locale: string, leapMonth: number) => {
+  const key = locale.startsWith('zh') ? 'zh' : 'en';
+  const months = CHINESE_MONTHS[key];
+  if (!leapMonth) {
+    return months;
+  }
+  return [
+    ...months.slice(0, leapMonth),
+    `${CHINESE_LEAP_MONTH_PREFIX[key]}${months[leapMonth - 1]}`,
+    ...months.slice(leapMonth),
+  ];
+};
+
+export const getEthiopicMonths = (locale: string) =>
+  ETHIOPIC_MONTHS[locale as 'am' | 'en'] || ETHIOPIC_MONTHS.en;
+
+export const getCopticMonths = (locale: string) =>
+  COPTIC_MONTHS[locale as 'ar' | 'en'] || COPTIC_MONTHS.en;
+
+/**
+ * Get the sexagenary (stem-branch) name of a Chinese year, e.g. 乙巳 or
+ * yi-si for 2025.
+ *
+ * @param year - Chinese year, numbered by the Gregorian year it begins in
+ * @param locale - locale, Chinese characters for `zh*` locales and pinyin
+ *   otherwise
+ *
+ * @returns stem-branch name of the year
+ */
+export const getSexagenaryYear = (year: number, locale: string) => {
+  const key = locale.startsWith('zh') ? 'zh' : 'en';
+  // 4 CE was a jia-zi year, the first of the 60-year cycle.
+  const cycleYear = (((year - 4) % 60) + 60) % 60;
+  const stem = HEAVENLY_STEMS[key][cycleYear % 10];
+  const branch = EARTHLY_BRANCHES[key][cycleYear % 12];
+  return key === 'zh' ? `${stem}${branch}` : `${stem}-${branch}`;
+};
+
 export const getMonths = () => dayjs.months();
 
 export const getMonthName = (month: number) => dayjs.months()[month];
@@ -77,34 +469,144 @@ export const adjustDayjsHijriDate = (
   // is anchored on the correct Gregorian day and is in the Islamic calendar
   // system - .toCalendarSystem('islamic') then derives all $C_*/$G_* fields
   // consistently.
+  // `hijriDate` is read as a Hijri year/month/day and converted through the
+  // registered system, so the `hijriAdjustment` applies to it as well.
   if (hijriDate) {
-    const g = umalqura.$.hijriToGregorian(
+    return getCalendarSystemDate(
+      'islamic',
       hijriDate.hy,
-      hijriDate.hm,
-      hijriDate.hd
-    );
-    const source = dayjsDate as unknown as {
-      $H?: number;
-      $m?: number;
-      $s?: number;
-      $ms?: number;
-    };
-    const anchor = dayjs(
-      new Date(
-        g.gy,
-        g.gm,
-        g.gd,
-        source?.$H ?? 0,
-        source?.$m ?? 0,
-        source?.$s ?? 0,
-        source?.$ms ?? 0
-      )
+      hijriDate.hm - 1,
+      hijriDate.hd,
+      dayjsDate
     );
-    return anchor.toCalendarSystem('islamic') as dayjs.Dayjs;
   }
   return dayjs(dayjsDate).toCalendarSystem('islamic') as dayjs.Dayjs;
 };
 
+type CalendarSystemWithMonths = {
+  daysInMonth?(year?: number, month?: number): number;
+  monthsInYear?(year: number): number;
+  leapMonth?(year: number): number;
+  convertToGregorian(
+    year: number,
+    month: number,
+    day: number
+  ): { year: number; month: number; day: number };
+  convertToJulian(year: number, month: number, day: number): number;
+};
+
+const getCalendarSystem = (calendar: CalendarType) =>
+  dayjs.getRegisteredCalendarSystem(
+    calendar
+  ) as unknown as CalendarSystemWithMonths;
+
+/**
+ * Get the number of months in a year of the given calendar
+ *
+ * @param year - year in the given calendar
+ * @param {CalendarType} [calendar] - Optional calendar type
+ *
+ * @returns number of months, 12 unless the calendar system says otherwise
+ */
+export const getMonthsInYear = (year: number, calendar?: CalendarType) => {
+  if (!isCalendarSystem(calendar)) {
+    return 12;
+  }
+  return (
+    getCalendarOptions(calendar!)?.monthsInYear?.(year) ??
+    getCalendarSystem(calendar!).monthsInYear?.(year) ??
+    12
+  );
+};
+
+const normalizeCalendarMonth = (
+  year: number,
+  month: number,
+  calendar: CalendarType
+) => normalizeMonth(year, month, (y) => getMonthsInYear(y, calendar));
+
+/**
+ * Get the number of days in a month of a calendar system
+ *
+ * @param year - year in the given calendar
+ * @param month - 0-based month in the given calendar, may overflow the year
+ * @param {CalendarType} calendar - calendar type
+ *
+ * @returns number of days in the month
+ */
+export const getDaysInCalendarMonth = (
+  year: number,
+  month: number,
+  calendar: CalendarType
+): number => {
+  const current = normalizeCalendarMonth(year, month, calendar);
+  const options = getCalendarOptions(calendar);
+  if (options?.daysInMonth) {
+    return options.daysInMonth(current.year, current.month);
+  }
+
+  const system = getCalendarSystem(calendar);
+  if (typeof system.daysInMonth === 'function') {
+    return system.daysInMonth(current.year, current.month);
+  }
+
+  // Registered systems without `daysInMonth` (like the ones calidy ships)
+  // still convert to Julian days, so measure the gap to the next month.
+  const next = normalizeCalendarMonth(year, month + 1, calendar);
+  return (
+    system.convertToJulian(next.year, next.month, 1) -
+    system.convertToJulian(current.year, current.month, 1)
+  );
+};
+
+/**
+ * Build a dayjs object for a year/month/day of a calendar system, keeping
+ * the time of day of `source`. This is the generic counterpart of
+ * `adjustDayjsHijriDate`.
+ *
+ * @param calendar - calendar type
+ * @param year - year in the given calendar
+ * @param month - 0-based month in the given calendar, may overflow the year
+ * @param day - day of month, may overflow the month
+ * @param source - date to copy the time of day from
+ *
+ * @returns dayjs object in the given calendar system
+ */
+export const getCalendarSystemDate = (
+  calendar: CalendarType,
+  year: number,
+  month: number,
+  day: number,
+  source?: dayjs.Dayjs
+): dayjs.Dayjs => {
+  // Normalize here rather than relying on every calendar system to roll
+  // over months and days; JS `Date` takes care of the day overflow below.
+  const normalized = normalizeCalendarMonth(year, month, calendar);
+  const g = getCalendarSystem(calendar).convertToGregorian(
+    normalized.year,
+    normalized.month,
+    1
+  );
+  const time = source as unknown as {
+    $H?: number;
+    $m?: number;
+    $s?: number;
+    $ms?: number;
+  };
+  const anchor = dayjs(
+    new Date(
+      g.year,
+      g.month,
+      g.day + day - 1,
+      time?.$H ?? 0,
+      time?.$m ?? 0,
+      time?.$s ?? 0,
+      time?.$ms ?? 0
+    )
+  );
+  return anchor.toCalendarSystem(calendar as CalendarSystem) as dayjs.Dayjs;
+};
+
 /**
  * Converts a date to a dayjs object with optional Islamic calendar support and
  * optional timezone anchoring.
@@ -130,6 +632,10 @@ export const adjustDayjsHijriDate = (
  * // Get a dayjs object anchored to a specific timezone
  * const tokyo = getDayjs('2025-03-20', 'gregory', 'Asia/Tokyo');
  */
+// Calendar system a dayjs instance was converted to by the calidy plugin
+const getCalendarOf = (date: DateType) =>
+  dayjs.isDayjs(date) ? (date as unknown as { $C?: string }).$C : undefined;
+
 export const getDayjs = (
   date: DateType,
   calendar?: CalendarType,
@@ -138,15 +644,36 @@ export const getDayjs = (
   if (date === undefined) {
     date = new Date();
   }
+  // Dates already in the calendar were built in the picker's time zone
+  if (
+    (calendar === 'islamic' || isCalendarSystem(calendar)) &&
+    getCalendarOf(date) === calendar
+  ) {
+    return date as dayjs.Dayjs;
+  }
+  const zonedDate = timeZone ? dayjs.tz(date, timeZone) : dayjs(date);
+  if (calendar !== 'islamic' && !isCalendarSystem(calendar)) {
+    return zonedDate;
+  }
+  // The calendar systems convert the local day of the instant, so the
+  // wall clock in `timeZone` is carried over to a local date first
+  const wallClock = timeZone
+    ? dayjs(
+        new Date(
+          zonedDate.year(),
+          zonedDate.month(),
+          zonedDate.get('date'),
+          zonedDate.hour(),
+          zonedDate.minute(),
+          zonedDate.second(),
+          zonedDate.millisecond()
+        )
+      )
+    : zonedDate;
   if (calendar === 'islamic') {
-    if (date && (date as any).$C === 'islamic') {
-      return date as dayjs.Dayjs;
-    }
-    const dayjsHijri = adjustDayjsHijriDate(date as dayjs.Dayjs);
-
-    return dayjsHijri as dayjs.Dayjs;
+    return adjustDayjsHijriDate(wallClock);
   }
-  return timeZone ? dayjs.tz(date, timeZone) : dayjs(date);
+  return wallClock.toCalendarSystem(calendar as CalendarSystem) as dayjs.Dayjs;
 };
 
 /**
@@ -157,30 +684,171 @@ export const getDayjs = (
 export const getMonthsArray = ({
   calendar,
   locale,
+  year,
 }: {
   calendar: CalendarType;
   locale: string;
+  year?: number;
 }): CalendarMonth[] => {
   let monthNames: string[] = dayjs.months();
   let monthShortNames: string[] = dayjs.monthsShort();
-  if (calendar === 'islamic') {
+  if (
+    calendar === 'islamic' ||
+    calendar === 'islamic-civil' ||
+    calendar === 'islamic-tbla'
+  ) {
     umalqura.locale(locale);
     monthNames = umalqura.months();
     monthShortNames = umalqura.monthsShort();
   } else if (calendar === 'jalali') {
     monthNames = getJalaliMonths(locale);
     monthShortNames = getJalaliMonths(locale);
+  } else if (calendar === 'hebrew') {
+    const isLeapYear =
+      getMonthsInYear(
+        year ?? getDayjs(undefined, calendar).year(),
+        calendar
+      ) === 13;
+    monthNames = getHebrewMonths(locale, isLeapYear);
+    monthShortNames = getHebrewMonths(locale, isLeapYear);
+  } else if (calendar === 'chinese') {
+    const leapMonth =
+      getCalendarSystem(calendar).leapMonth?.(
+        year ?? getDayjs(undefined, calendar).year()
+      ) ?? 0;
+    monthNames = getChineseMonths(locale, leapMonth);
+    monthShortNames = getChineseMonths(locale, leapMonth);
+  } else if (calendar === 'ethiopic') {
+    monthNames = getEthiopicMonths(locale);
+    monthShortNames = getEthiopicMonths(locale);
+  } else if (calendar === 'coptic') {
+    monthNames = getCopticMonths(locale);
+    monthShortNames = getCopticMonths(locale);
+  }
+
+  const calendarYear = isCalendarSystem(calendar)
+    ? (year ?? getDayjs(undefined, calendar).year())
+    : undefined;
+  const monthsInYear =
+    calendarYear !== undefined
+      ? getMonthsInYear(calendarYear, calendar)
+      : monthNames.length;
+
+  const options = getCalendarOptions(calendar);
+  if (options && calendarYear !== undefined) {
+    const resolve = (names?: CalendarMonthNames) =>
+      typeof names === 'function' ? names(locale, calendarYear) : names;
+    monthNames = resolve(options.monthNames) ?? [];
+    monthShortNames = resolve(options.monthShortNames) ?? monthNames;
   }
-  return monthNames.map((name, index) => ({
+
+  return Array.from({ length: monthsInYear }, (_, index) => ({
     index,
     name: {
-      full: name,
+      full: monthNames[index] || `${index + 1}`,
       short: monthShortNames[index] || '',
     },
     isSelected: false,
   }));
 };
 
+/**
+ * Convert a date to the calendar shown next to the primary one, independently
+ * of the calendar the global dayjs instance is set to.
+ *
+ * @param date - date in any calendar
+ * @param calendar - secondary calendar
+ *
+ * @returns dayjs date in the secondary calendar
+ */
+export const getSecondaryCalendarDate = (
+  date: DateType,
+  calendar: CalendarType
+): dayjs.Dayjs => {
+  const gregorian = dayjs(date).toDate();
+  if (calendar === 'jalali') {
+    return dayjs(gregorian).calendar('jalali');
+  }
+  if (calendar === 'islamic' || isCalendarSystem(calendar)) {
+    return getDayjs(gregorian, calendar);
+  }
+  // Going through calidy also restores the Gregorian month names of the
+  // locale, which converting to Hijri replaces.
+  return dayjs(gregorian).calendar('gregory').toCalendarSystem('gregory');
+};
+
+/**
+ * Get the secondary calendar months and years the displayed month spans,
+ * e.g. "Ramadan – Shawwal 1446" or "Esfand 1403 – Farvardin 1404".
+ *
+ * @param date - current date of the picker
+ * @param calendar - primary calendar
+ * @param secondaryCalendar - secondary calendar
+ * @param locale - locale of the month names
+ * @param numerals - numeral system of the years
+ *
+ * @returns month and year span label
+ */
+export const getSecondaryMonthSpan = ({
+  date,
+  calendar,
+  secondaryCalendar,
+  locale,
+  numerals = 'latn',
+}: {
+  date: DateType;
+  calendar: CalendarType;
+  secondaryCalendar: CalendarType;
+  locale: string;
+  numerals?: Numerals;
+}): string => {
+  const current = getDayjs(date, calendar);
+  const { daysInCurrentMonth } = getDaysInMonth(current, false, 0, calendar);
+
+  let firstDay = current.set('date', 1);
+  let lastDay = current.set('date', daysInCurrentMonth);
+  if (calendar === 'islamic' || isCalendarSystem(calendar)) {
+    firstDay = getCalendarSystemDate(
+      calendar,
+      current.year(),
+      current.month(),
+      1
+    );
+    lastDay = getCalendarSystemDate(
+      calendar,
+      current.year(),
+      current.month(),
+      daysInCurrentMonth
+    );
+  }
+
+  const getMonthAndYear = (day: dayjs.Dayjs) => {
+    const secondaryDate = getSecondaryCalendarDate(day, secondaryCalendar);
+    const year = secondaryDate.year();
+    const month =
+      secondaryCalendar === 'gregory' || secondaryCalendar === 'buddhist'
+        ? secondaryDate.locale(locale).format('MMMM')
+        : (getMonthsArray({ calendar: secondaryCalendar, locale, year })[
+            secondaryDate.month()
+          ]?.name.full ?? '');
+    return {
+      year,
+      month,
+      yearText: formatNumber(year + getYearOffset(secondaryCalendar), numerals),
+    };
+  };
+  const start = getMonthAndYear(firstDay);
+  const end = getMonthAndYear(lastDay);
+
+  if (start.year !== end.year) {
+    return `${start.month} ${start.yearText} – ${end.month} ${end.yearText}`;
+  }
+  if (start.month !== end.month) {
+    return `${start.month} – ${end.month} ${end.yearText}`;
+  }
+  return `${start.month} ${start.yearText}`;
+};
+
 /**
  * Get weekdays
  *
@@ -218,6 +886,400 @@ export const getWeekdays = (
   return weekdays;
 };
 
+// Gregorian calendar day of a date, keeping the wall-clock day of zoned dates
+const getGregorianDay = (date: DateType) => {
+  const calendarDate = dayjs(date);
+  const $C = getCalendarOf(calendarDate);
+  const day =
+    $C && $C !== 'gregory' ? dayjs(calendarDate.toDate()) : calendarDate;
+  return dayjs(new Date(day.year(), day.month(), day.get('date')));
+};
+
+/**
+ * Get the week of the year of a date. Weeks starting on Monday follow
+ * ISO-8601 (week 1 holds the first Thursday of the year); other week starts
+ * count the week holding January 1st as week 1.
+ *
+ * @param date - date in any calendar
+ * @param firstDayOfWeek - first day of the week, 0 for Sunday
+ *
+ * @returns week number, from 1 to 53, and the year the week belongs to
+ */
+export const getWeekOfYear = (
+  date: DateType,
+  firstDayOfWeek: number = 1
+): { weekNumber: number; year: number } => {
+  const day = getGregorianDay(date);
+  const minDaysInFirstWeek = firstDayOfWeek === 1 ? 4 : 1;
+  const startOfWeek = day.subtract((day.day() - firstDayOfWeek + 7) % 7, 'day');
+  // The week belongs to the year of this day
+  const reference = startOfWeek.add(7 - minDaysInFirstWeek, 'day');
+  const dayOfYear = reference.diff(reference.startOf('year'), 'day');
+
+  return { weekNumber: Math.floor(dayOfYear / 7) + 1, year: reference.year() };
+};
+
+export const getWeekNumber = (date: DateType, firstDayOfWeek: number = 1) =>
+  getWeekOfYear(date, firstDayOfWeek).weekNumber;
+
+/**
+ * Get the week a day falls in, as selected in week mode.
+ *
+ * @param date - selected day
+ * @param firstDayOfWeek - first day of the week, 0 for Sunday
+ * @param {CalendarType} [calendar] - Optional calendar type
+ * @param {string} [timeZone] - Optional IANA timezone the week is anchored to
+ *
+ * @returns first and last day of the week, with its number and year
+ */
+export const getWeekRange = (
+  date: DateType,
+  firstDayOfWeek: number,
+  calendar?: CalendarType,
+  timeZone?: string
+) => {
+  const day = removeTime(date, timeZone, calendar) as dayjs.Dayjs;
+  const startDate = day.subtract((day.day() - firstDayOfWeek + 7) % 7, 'day');
+  const lastDay = startDate.add(6, 'day');
+
+  return {
+    startDate,
+    endDate:
+      calendar === 'islamic'
+        ? lastDay
+        : getEndOfDay(lastDay, calendar, timeZone),
+    ...getWeekOfYear(startDate, firstDayOfWeek),
+  };
+};
+
+/**
+ * Get the month or year a day falls in, as selected in month and year modes.
+ *
+ * @param date - selected day
+ * @param unit - 'month' or 'year'
+ * @param {CalendarType} [calendar] - Optional calendar type
+ * @param {string} [timeZone] - Optional IANA timezone the period is anchored to
+ *
+ * @returns first and last day of the period
+ */
+export const getPeriodRange = (
+  date: DateType,
+  unit: 'month' | 'year',
+  calendar?: CalendarType,
+  timeZone?: string
+) => {
+  const day = removeTime(date, timeZone, calendar) as dayjs.Dayjs;
+  const startDate =
+    unit === 'year' ? day.set('date', 1).month(0) : day.set('date', 1);
+  const lastDay = startDate.add(1, unit).subtract(1, 'day');
+
+  return {
+    startDate,
+    endDate:
+      calendar === 'islamic'
+        ? lastDay
+        : getEndOfDay(lastDay, calendar, timeZone),
+  };
+};
+
+/**
+ * Get the first day of a month in the calendar and time zone of a reference
+ * date, e.g. for a cell of the months grid.
+ *
+ * @param reference - date in the picker's calendar
+ * @param year - year in the calendar
+ * @param month - 0-based month in the calendar
+ * @param {CalendarType} [calendar] - Optional calendar type
+ *
+ * @returns first day of the month
+ */
+export const getMonthStart = (
+  reference: DateType,
+  year: number,
+  month: number,
+  calendar?: CalendarType
+) => {
+  const date = getDayjs(reference, calendar);
+  if (isCalendarSystem(calendar)) {
+    return getCalendarSystemDate(calendar!, year, month, 1, date);
+  }
+  return date.set('date', 1).year(year).month(month);
+};
+
+/**
+ * Get the selection state of a months or years grid cell in month and year
+ * modes.
+ *
+ * @param key - year, or `year * 100 + month` for months
+ * @param unit - 'month' or 'year'
+ * @param selection - selected date, or start and end dates with `range`
+ * @param {CalendarType} [calendar] - Optional calendar type
+ *
+ * @returns selection flags of the cell
+ */
+export const getPeriodSelection = (
+  key: number,
+  unit: 'month' | 'year',
+  {
+    range,
+    date,
+    startDate,
+    endDate,
+  }: {
+    range?: boolean;
+    date?: DateType;
+    startDate?: DateType;
+    endDate?: DateType;
+  },
+  calendar?: CalendarType
+) => {
+  const toKey = (value: DateType) => {
+    if (!value) return undefined;
+    const day = getDayjs(value, calendar);
+    return unit === 'year' ? day.year() : day.year() * 100 + day.month();
+  };
+
+  if (!range) {
+    return {
+      isSelected: key === toKey(date),
+      inRange: false,
+      rangeStart: false,
+      rangeEnd: false,
+    };
+  }
+
+  const start = toKey(startDate);
+  const end = toKey(endDate);
+  const rangeStart = key === start;
+  const rangeEnd = key === end;
+  return {
+    isSelected: rangeStart || rangeEnd,
+    inRange:
+      start !== undefined && end !== undefined && key > start && key < end,
+    rangeStart,
+    rangeEnd,
+  };
+};
+
+/**
+ * Sort ranges and merge the ones that overlap or touch, as selected in
+ * multi-range mode. A range still being picked (without an end) is kept last.
+ *
+ * @param ranges - ranges to merge
+ * @param {CalendarType} [calendar] - Optional calendar type
+ * @param {string} [timeZone] - Optional IANA timezone the days are compared in
+ *
+ * @returns merged ranges
+ */
+export const mergeDateRanges = (
+  ranges: DateRange[],
+  calendar?: CalendarType,
+  timeZone?: string
+): DateRange[] => {
+  const toUnix = (value: DateType) =>
+    dateToUnix(removeTime(value, timeZone, calendar), calendar);
+  const nextDayUnix = (value: DateType) =>
+    dateToUnix(
+      (removeTime(value, timeZone, calendar) as dayjs.Dayjs).add(1, 'day'),
+      calendar
+    );
+
+  const merged: DateRange[] = [];
+  ranges
+    .filter((range) => range.startDate && range.endDate)
+    .sort((a, b) => toUnix(a.startDate) - toUnix(b.startDate))
+    .forEach((range) => {
+      const last = merged[merged.length - 1];
+      if (last && toUnix(range.startDate) <= nextDayUnix(last.endDate)) {
+        if (toUnix(range.endDate) > toUnix(last.endDate)) {
+          last.endDate = range.endDate;
+        }
+      } else {
+        merged.push({ ...range });
+      }
+    });
+
+  return [...merged, ...ranges.filter((range) => !range.endDate)];
+};
+
+/**
+ * Find the range a day belongs to in multi-range mode, preferring the range
+ * it starts or ends.
+ *
+ * @param date - day to look up
+ * @param ranges - selected ranges
+ * @param {CalendarType} [calendar] - Optional calendar type
+ *
+ * @returns the range, or undefined when the day is not selected
+ */
+export const getRangeOfDay = (
+  date: DateType,
+  ranges: DateRange[],
+  calendar?: CalendarType
+) =>
+  ranges.find(
+    (range) =>
+      areDatesOnSameDay(date, range.startDate, calendar) ||
+      areDatesOnSameDay(date, range.endDate, calendar)
+  ) ?? ranges.find((range) => isDateBetween(date, range, calendar));
+
+/**
+ * Get the length of a range as counted by `min` and `max` in range mode.
+ *
+ * @param startDate - start of the range
+ * @param endDate - end of the range
+ * @param {RangeSemantics} [rangeSemantics] - Count the nights between the ends of the range (default), or its days with both ends included
+ * @param {CalendarType} [calendar] - Optional calendar type
+ * @param {string} [timeZone] - Optional IANA timezone the days are counted in
+ *
+ * @returns number of nights or days
+ */
+export const getRangeLength = (
+  startDate: DateType,
+  endDate: DateType,
+  rangeSemantics: RangeSemantics = 'nights',
+  calendar?: CalendarType,
+  timeZone?: string
+) => {
+  // Hijri days compare without their time, which removeTime would mutate
+  const toUnix = (value: DateType) =>
+    calendar === 'islamic'
+      ? dateToUnix(getDayjs(value, calendar), calendar)
+      : dateToUnix(removeTime(value, timeZone, calendar), calendar);
+  const nights = Math.round(
+    Math.abs(toUnix(endDate) - toUnix(startDate)) / 86400
+  );
+  return rangeSemantics === 'days' ? nights + 1 : nights;
+};
+
+/**
+ * Get the end of a range of a fixed length.
+ *
+ * @param startDate - start of the range
+ * @param fixedRangeLength - amount and unit of the range length
+ * @param {RangeSemantics} [rangeSemantics] - Optional range semantics
+ * @param {CalendarType} [calendar] - Optional calendar type
+ * @param {string} [timeZone] - Optional IANA timezone
+ *
+ * @returns the last day of the range, or the check-out day counting nights
+ */
+export const getFixedRangeEnd = (
+  startDate: DateType,
+  { amount, unit }: FixedRangeLength,
+  rangeSemantics: RangeSemantics = 'nights',
+  calendar?: CalendarType,
+  timeZone?: string
+) => {
+  const end = getDayjs(startDate, calendar, timeZone).add(amount, unit);
+  return rangeSemantics === 'days' ? end.subtract(1, 'day') : end;
+};
+
+/**
+ * Find the first disabled day walking from a day towards another one.
+ *
+ * @param from - day to start from, not checked itself
+ * @param to - last day to check, before or after `from`
+ * @param options - bounds and enabled or disabled dates of the picker
+ * @param {CalendarType} [calendar] - Optional calendar type
+ * @param {string} [timeZone] - Optional IANA timezone the days are counted in
+ *
+ * @returns the disabled day closest to `from`, or undefined
+ */
+export const getFirstDisabledDate = (
+  from: DateType,
+  to: DateType,
+  options: Parameters<typeof isDateDisabled>[1],
+  calendar?: CalendarType,
+  timeZone?: string
+): dayjs.Dayjs | undefined => {
+  const fromDay = getDayjs(from, calendar, timeZone);
+  const step =
+    dateToUnix(getDayjs(to, calendar), calendar) <
+    dateToUnix(getDayjs(from, calendar), calendar)
+      ? -1
+      : 1;
+  const days = getRangeLength(from, to, 'nights', calendar, timeZone);
+
+  for (let index = 1; index <= days; index++) {
+    const day = fromDay.add(index * step, 'day');
+    if (isDateDisabled(day, options)) {
+      return day;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Find the next disabled day after each day from a day to a later one, with
+ * a single backward sweep so each day is checked once.
+ *
+ * @param from - first day
+ * @param to - last day, after `from`
+ * @param options - bounds and enabled or disabled dates of the picker
+ * @param {CalendarType} [calendar] - Optional calendar type
+ * @param {string} [timeZone] - Optional IANA timezone the days are counted in
+ *
+ * @returns for each day, the days from `from` to the next disabled day, or Infinity
+ */
+export const getNextDisabledOffsets = (
+  from: DateType,
+  to: DateType,
+  options: Parameters<typeof isDateDisabled>[1],
+  calendar?: CalendarType,
+  timeZone?: string
+) => {
+  const fromDay = getDayjs(from, calendar, timeZone);
+  const days = getRangeLength(from, to, 'nights', calendar, timeZone);
+  const offsets: number[] = new Array(days + 1);
+
+  let next = Infinity;
+  for (let index = days; index >= 0; index--) {
+    offsets[index] = next;
+    if (isDateDisabled(fromDay.add(index, 'day'), options)) {
+      next = index;
+    }
+  }
+  return offsets;
+};
+
+/**
+ * Find the disabled day that keeps a range from being selected. Counting
+ * nights, the range may end on a disabled day.
+ *
+ * @param startDate - start of the range
+ * @param endDate - end of the range
+ * @param options - bounds and enabled or disabled dates of the picker
+ * @param {RangeSemantics} [rangeSemantics] - Optional range semantics
+ * @param {CalendarType} [calendar] - Optional calendar type
+ * @param {string} [timeZone] - Optional IANA timezone the days are counted in
+ *
+ * @returns the first disabled day within the range, or undefined
+ */
+export const getDisabledDateInRange = (
+  startDate: DateType,
+  endDate: DateType,
+  options: Parameters<typeof isDateDisabled>[1],
+  rangeSemantics: RangeSemantics = 'nights',
+  calendar?: CalendarType,
+  timeZone?: string
+) => {
+  const disabledDate = getFirstDisabledDate(
+    startDate,
+    endDate,
+    options,
+    calendar,
+    timeZone
+  );
+  if (
+    rangeSemantics !== 'days' &&
+    disabledDate &&
+    areDatesOnSameDay(disabledDate, endDate, calendar)
+  ) {
+    return undefined;
+  }
+  return disabledDate;
+};
+
 export const getFormated = (date: DateType, calendar?: CalendarType) =>
   getDayjs(date, calendar).format(CALENDAR_FORMAT);
 
@@ -225,7 +1287,7 @@ export const getDateMonth = (date: DateType, calendar?: CalendarType) =>
   getDayjs(date, calendar).month();
 
 export const getDateYear = (date: DateType, calendar?: CalendarType) =>
-  getDayjs(date as dayjs.Dayjs, calendar).year();
+  getDayjs(date as dayjs.Dayjs, calendar).year() + getYearOffset(calendar);
 
 /**
  * Check if two dates are on the same day
@@ -365,6 +1427,28 @@ export function isDateDisabled(
   return false;
 }
 
+/**
+ * Get why a day can't be selected.
+ *
+ * @param date - day to check
+ * @param options - bounds and enabled or disabled dates of the picker
+ *
+ * @returns 'out-of-bounds' before `minDate` or after `maxDate`, 'disabled'
+ * for the enabled and disabled dates, or undefined when the day is enabled
+ */
+export function getDisabledReason(
+  date: dayjs.Dayjs,
+  options: Parameters<typeof isDateDisabled>[1]
+): SelectionRejectedReason | undefined {
+  if (!isDateDisabled(date, options)) {
+    return undefined;
+  }
+  const { minDate, maxDate, calendar } = options;
+  return isDateDisabled(date, { minDate, maxDate, calendar })
+    ? 'out-of-bounds'
+    : 'disabled';
+}
+
 /**
  * Check if year is disabled
  *
@@ -385,6 +1469,7 @@ export function isYearDisabled(
   },
   calendar?: CalendarType
 ): boolean {
+  if (!isYearSupported(year - getYearOffset(calendar), calendar)) return true;
   if (minDate && year < getDateYear(minDate, calendar)) return true;
   if (maxDate && year > getDateYear(maxDate, calendar)) return true;
 
@@ -392,7 +1477,9 @@ export function isYearDisabled(
 }
 
 /**
- * Check if month is disabled
+ * Check if month is disabled. Month indexes past the last month of the
+ * date's year in the given calendar (e.g. a 13th month in a common Hebrew
+ * year) are always disabled.
  *
  * @param month - month to check
  * @param date - date to check
@@ -413,6 +1500,8 @@ export function isMonthDisabled(
   },
   calendar?: CalendarType
 ): boolean {
+  if (month >= getMonthsInYear(getDayjs(date, calendar).year(), calendar))
+    return true;
   if (
     minDate &&
     month < getDateMonth(minDate, calendar) &&
@@ -458,7 +1547,8 @@ export const getDate = (date: DateType, calendar?: CalendarType) =>
 /**
  * Get year range
  *
- * @param year - year to get year range from
+ * @param year - year to get year range from, in the displayed era (e.g.
+ *   Buddhist era years for the `buddhist` calendar)
  *
  * @returns year range
  */
@@ -488,12 +1578,11 @@ export const getYearRange = (year: number) => {
  *
  * @note
  * - The function uses the Umm al-Qura calendar system
- * - Month indexing starts at 1 (1 = Muharram, 12 = Dhu al-Hijjah) so +1 is added
- * - Relies on @umalqura/core calendar conversion
+ * - Goes through the registered `UmalquraCalendarSystem`, so the month
+ *   length reflects the `hijriAdjustment` of this month and the next
  */
 export function getDaysInHijriMonth(date: dayjs.Dayjs): number {
-  const lastDay = umalqura(date.year(), date.month() + 1, 30);
-  return lastDay.hd === 30 ? 30 : 29;
+  return getDaysInCalendarMonth(date.year(), date.month(), 'islamic');
 }
 
 /**
@@ -513,23 +1602,46 @@ export function getDaysInMonth(
   calendar?: CalendarType
 ) {
   const currentDate = getDayjs(date, calendar);
-  let daysInCurrentMonth = currentDate.daysInMonth();
-  let prevMonthDays = currentDate.add(-1, 'month').daysInMonth();
-  if (calendar === 'islamic') {
-    daysInCurrentMonth = getDaysInHijriMonth(currentDate);
-    prevMonthDays = getDaysInHijriMonth(
-      currentDate.month(currentDate.month() - 1)
+  let daysInCurrentMonth = 0;
+  let prevMonthDays = 0;
+  // Month lengths come from the calendar system rather than converting to
+  // the previous month, which throws before the first month of the Umm
+  // al-Qura tables.
+  if (calendar === 'islamic' || isCalendarSystem(calendar)) {
+    daysInCurrentMonth = getDaysInCalendarMonth(
+      currentDate.year(),
+      currentDate.month(),
+      calendar!
+    );
+    prevMonthDays = getDaysInCalendarMonth(
+      currentDate.year(),
+      currentDate.month() - 1,
+      calendar!
     );
+  } else {
+    daysInCurrentMonth = currentDate.daysInMonth();
+    prevMonthDays = currentDate.add(-1, 'month').daysInMonth();
   }
 
-  const firstDay = currentDate.date(1 - firstDayOfWeek);
-  let prevMonthOffset = (firstDay as dayjs.Dayjs).day() % 7;
+  let prevMonthOffset = 0;
   if (calendar === 'islamic') {
-    prevMonthOffset = umalqura(
+    prevMonthOffset = getCalendarSystemDate(
+      'islamic',
       currentDate.year(),
-      currentDate.month() + 1,
+      currentDate.month(),
       1
-    ).dayOfWeek;
+    ).day();
+  } else if (isCalendarSystem(calendar)) {
+    const firstOfMonth = getCalendarSystemDate(
+      calendar!,
+      currentDate.year(),
+      currentDate.month(),
+      1
+    );
+    prevMonthOffset = (firstOfMonth.day() - firstDayOfWeek + 7) % 7;
+  } else {
+    const firstDay = currentDate.date(1 - firstDayOfWeek);
+    prevMonthOffset = (firstDay as dayjs.Dayjs).day() % 7;
   }
   const daysInPrevMonth = showOutsideDays ? prevMonthOffset : 0;
   const monthDaysOffset = prevMonthOffset + daysInCurrentMonth;
@@ -617,14 +1729,13 @@ export function getEndOfDay(
 export function dateToUnix(date: DateType, calendar?: CalendarType): number {
   if (calendar === 'islamic' && date) {
     const dayjsDate = date as dayjs.Dayjs;
-    const umalquraDate = umalqura(
+    const gregoryDate = getCalendarSystemDate(
+      'islamic',
       dayjsDate.year(),
-      dayjsDate.month() + 1,
+      dayjsDate.month(),
       dayjsDate.get('date')
-    );
-    const gregoryDate = convertHijriToGregorian(umalquraDate);
-    const dateTime = new Date(gregoryDate.gy, gregoryDate.gm, gregoryDate.gd);
-    return dateTime.getTime() / 1000;
+    ).toDate();
+    return gregoryDate.getTime() / 1000;
   }
   return getDayjs(date, calendar).unix();
 }
@@ -651,6 +1762,9 @@ export function removeTime(
     (hijriDate as any).$m = 0;
     return hijriDate;
   }
+  if (isCalendarSystem(calendar)) {
+    return getDayjs(date, calendar).clone().startOf('day');
+  }
 
   // NOTE: keep the result anchored to `timeZone`. Previously this was
   // re-wrapped with `dayjs(...)`, which strips the timezone marker and
@@ -683,6 +1797,37 @@ export const getParsedDate = (
   };
 };
 
+/**
+ * Format the hours and minutes of a date as shown by the time selector.
+ *
+ * @param date - date to format
+ * @param {CalendarType} [calendar] - Optional calendar type
+ * @param numerals - numbering system of the digits
+ * @param use12Hours - whether to show the hour on a 12-hour clock with AM/PM
+ * @param {string} [timeZone] - Optional IANA timezone
+ *
+ * @returns time label, e.g. "18:30" or "06:30 PM"
+ */
+export const formatTime = (
+  date: DateType,
+  calendar: CalendarType | undefined,
+  numerals: Numerals,
+  use12Hours?: boolean,
+  timeZone?: string
+) => {
+  const { hour, hour12, minute, period } = getParsedDate(
+    date,
+    calendar,
+    timeZone
+  );
+  const pad = (value: number) =>
+    value < 10
+      ? `${formatNumber(0, numerals)}${formatNumber(value, numerals)}`
+      : `${formatNumber(value, numerals)}`;
+
+  return `${pad(use12Hours ? hour12 : hour)}:${pad(minute)} ${use12Hours ? period : ''}`.trim();
+};
+
 export const addTime = (
   date: dayjs.Dayjs,
   calendar?: CalendarType,
@@ -708,22 +1853,6 @@ export const addTime = (
   return result;
 };
 
-const getPrevHijriDate = (date: dayjs.Dayjs, dateDay: number) => {
-  const prevMonthIndex = date.month() === 0 ? 11 : date.month() - 1;
-  const year = date.month() === 0 ? date.year() - 1 : date.year();
-  const hijriDate = umalqura(year, prevMonthIndex + 1, dateDay);
-
-  return adjustDayjsHijriDate(date, hijriDate);
-};
-
-const getNextHijriDate = (date: dayjs.Dayjs, dateDay: number) => {
-  const nextMonthIndex = date.month() === 11 ? 0 : date.month() + 1;
-  const year = date.month() === 11 ? date.year() + 1 : date.year();
-  const hijriDate = umalqura(year, nextMonthIndex + 1, dateDay);
-
-  return adjustDayjsHijriDate(date, hijriDate);
-};
-
 /**
  * Calculate month days array based on current date
  *
@@ -739,6 +1868,8 @@ const getNextHijriDate = (date: dayjs.Dayjs, dateDay: number) => {
  * @param daysInCurrentMonth - number of days in the current month
  * @param daysInNextMonth - number of days in the next month
  * @param {CalendarType} [calendar] - Optional calendar type to use ('islamic' for Hijri calendar)
+ * @param timeZone - time zone the cells are anchored to
+ * @param {CalendarType} [secondaryCalendar] - Optional calendar whose day numbers are added to each cell
  *
  * @returns days array based on current date
  */
@@ -756,7 +1887,8 @@ export const getMonthDays = (
   daysInNextMonth: number,
   numerals: Numerals,
   calendar?: CalendarType,
-  timeZone?: string
+  timeZone?: string,
+  secondaryCalendar?: CalendarType
 ): CalendarDay[] => {
   // Anchor the base date to `timeZone` so that each cell's `.date` represents
   // the intended wall-clock day in that zone. Without this, every cell is a
@@ -764,13 +1896,32 @@ export const getMonthDays = (
   // that zone.
   const date = getDayjs(datetime, calendar, timeZone);
 
+  // The months around the first and last supported ones can't be converted,
+  // so their outside days are left empty
+  const isMonthSupported = (offset: number) =>
+    !getSupportedYearRange(calendar) ||
+    isYearSupported(
+      normalizeCalendarMonth(date.year(), date.month() + offset, calendar!)
+        .year,
+      calendar
+    );
+  const isPrevMonthSupported = isMonthSupported(-1);
+  const isNextMonthSupported = isMonthSupported(1);
+
   const prevDays = showOutsideDays
     ? Array.from({ length: prevMonthOffset }, (_, index) => {
+        if (!isPrevMonthSupported) return null;
         const prevDay = index + (prevMonthDays - prevMonthOffset + 1);
-        let thisDay = date.month(date.month() - 1).set('date', prevDay);
-        if (calendar === 'islamic') {
-          thisDay = getPrevHijriDate(date, prevDay);
-        }
+        const thisDay =
+          calendar === 'islamic' || isCalendarSystem(calendar)
+            ? getCalendarSystemDate(
+                calendar!,
+                date.year(),
+                date.month() - 1,
+                prevDay,
+                date
+              )
+            : date.month(date.month() - 1).set('date', prevDay);
 
         return generateCalendarDay(
           prevDay,
@@ -783,7 +1934,8 @@ export const getMonthDays = (
           index + 1,
           firstDayOfWeek,
           numerals,
-          calendar
+          calendar,
+          secondaryCalendar
         );
       })
     : Array(prevMonthOffset).fill(null);
@@ -791,9 +1943,14 @@ export const getMonthDays = (
   const currentDays = Array.from({ length: daysInCurrentMonth }, (_, index) => {
     const day = index + 1;
     let thisDay = date.set('date', day);
-    if (calendar === 'islamic') {
-      const hijriDate = umalqura(date.year(), date.month() + 1, day);
-      thisDay = adjustDayjsHijriDate(date, hijriDate);
+    if (calendar === 'islamic' || isCalendarSystem(calendar)) {
+      thisDay = getCalendarSystemDate(
+        calendar!,
+        date.year(),
+        date.month(),
+        day,
+        date
+      );
     }
     return generateCalendarDay(
       day,
@@ -806,16 +1963,24 @@ export const getMonthDays = (
       prevMonthOffset + day,
       firstDayOfWeek,
       numerals,
-      calendar
+      calendar,
+      secondaryCalendar
     );
   });
 
   const nextDays = Array.from({ length: daysInNextMonth }, (_, index) => {
+    if (!isNextMonthSupported) return null;
     const day = index + 1;
-    let thisDay = date.month(date.month() + 1).date(day);
-    if (calendar === 'islamic') {
-      thisDay = getNextHijriDate(date, day);
-    }
+    const thisDay =
+      calendar === 'islamic' || isCalendarSystem(calendar)
+        ? getCalendarSystemDate(
+            calendar!,
+            date.year(),
+            date.month() + 1,
+            day,
+            date
+          )
+        : date.month(date.month() + 1).date(day);
     return generateCalendarDay(
       day,
       thisDay as dayjs.Dayjs,
@@ -827,18 +1992,14 @@ export const getMonthDays = (
       daysInCurrentMonth + prevMonthOffset + day,
       firstDayOfWeek,
       numerals,
-      calendar
+      calendar,
+      secondaryCalendar
     );
   });
 
   return [...prevDays, ...currentDays, ...nextDays];
 };
 
-const getStartOfHijriWeek = (date: dayjs.Dayjs) => {
-  const hijriDate = umalqura(date.year(), date.month() + 1, date.get('date'));
-  return adjustDayjsHijriDate(date, hijriDate.startOf('week'));
-};
-
 /**
  * Generate day object for displaying inside day cell
  *
@@ -852,6 +2013,7 @@ const getStartOfHijriWeek = (date: dayjs.Dayjs) => {
  * @param dayOfMonth - number the day in the current month
  * @param firstDayOfWeek - first day of week, number 0-6, 0 – Sunday, 6 – Saturday
  * @param {CalendarType} [calendar] - Optional calendar type to use ('islamic' for Hijri calendar)
+ * @param {CalendarType} [secondaryCalendar] - Optional calendar whose day number is added to the day
  *
  * @returns days object based on current date
  */
@@ -866,13 +2028,21 @@ const generateCalendarDay = (
   dayOfMonth: number,
   firstDayOfWeek: number,
   numerals: Numerals,
-  calendar?: CalendarType
+  calendar?: CalendarType,
+  secondaryCalendar?: CalendarType
 ) => {
-  let startOfWeek = getDayjs(date, calendar)
-    .startOf('week')
-    .add(firstDayOfWeek, 'day');
-  if (calendar === 'islamic') {
-    startOfWeek = getStartOfHijriWeek(date);
+  // calidy's `startOf('day')` (used by `isSame`) writes into the instance's
+  // own `$d` for Islamic and calendar-system dates, which would move the
+  // cell to the end of the day, so compare weekdays directly instead. Hijri
+  // weeks start on Sunday.
+  let isStartOfWeek = date.day() === 0;
+  if (isCalendarSystem(calendar)) {
+    isStartOfWeek = date.day() === firstDayOfWeek;
+  } else if (calendar !== 'islamic') {
+    const startOfWeek = getDayjs(date, calendar)
+      .startOf('week')
+      .add(firstDayOfWeek, 'day');
+    isStartOfWeek = date.isSame(startOfWeek, 'day');
   }
 
   return {
@@ -887,8 +2057,24 @@ const generateCalendarDay = (
     }),
     isCurrentMonth,
     dayOfMonth,
-    isStartOfWeek: date.isSame(startOfWeek, 'day'),
+    isStartOfWeek,
     isEndOfWeek: date.day() === (firstDayOfWeek + 6) % 7,
+    ...(secondaryCalendar &&
+      getSecondaryDay(date, secondaryCalendar, numerals)),
+  };
+};
+
+const getSecondaryDay = (
+  date: dayjs.Dayjs,
+  secondaryCalendar: CalendarType,
+  numerals: Numerals
+) => {
+  const secondaryNumber = getSecondaryCalendarDate(date, secondaryCalendar).get(
+    'date'
+  );
+  return {
+    secondaryNumber,
+    secondaryText: formatNumber(secondaryNumber, numerals),
   };
 };
 
@@ -919,7 +2105,9 @@ export function useDeepCompareMemo<T>(value: T, deps: any[]): T {
   return ref.current as T;
 }
 
-function getDigitMap(numerals: Numerals): Record<string, string> {
+function getDigitMap(
+  numerals: Exclude<Numerals, 'hebr'>
+): Record<string, string> {
   const digitMap: Record<string, string> = {};
   const numeralDigits = numeralSystems[numerals];
 
@@ -930,11 +2118,17 @@ function getDigitMap(numerals: Numerals): Record<string, string> {
   return digitMap;
 }
 
-function replaceDigits(input: string, numerals: Numerals): string {
+function replaceDigits(
+  input: string,
+  numerals: Exclude<Numerals, 'hebr'>
+): string {
   const digitMap = getDigitMap(numerals);
   return input.replace(/\d/g, (digit) => digitMap[digit] || digit);
 }
 
 export function formatNumber(value: number, numerals: Numerals): string {
+  if (numerals === 'hebr') {
+    return formatHebrewNumeral(value);
+  }
   return replaceDigits(value.toString(), numerals);
 }